@@ -3,34 +3,67 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import React, { useState, useMemo, useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import StartScreen from './components/StartScreen.tsx';
 import Canvas from './components/Canvas.tsx';
 import WardrobePanel from './components/WardrobeModal.tsx';
 import OutfitStack from './components/OutfitStack.tsx';
-import { generateVirtualTryOnImage, generatePoseVariation, changeGarmentColor, changeBackground, generateLookbook, changeLighting, magicWandEdit } from './services/geminiService.ts';
-import { OutfitLayer, WardrobeItem, POSE_INSTRUCTIONS, BACKGROUND_OPTIONS, PoseInstruction, LIGHTING_OPTIONS } from './types.ts';
+import { generateVirtualTryOnImage, generateVirtualTryOnCandidates, generatePoseVariation, changeGarmentColor, changeGarmentFabric, changeBackground, generateLookbook, changeLighting, magicWandEditCandidates } from './services/geminiService.ts';
+import { OutfitLayer, WardrobeItem, BUILT_IN_POSES, DEFAULT_POSE_ID, Pose, getPoseLabel, GenerationJobTarget, BACKGROUND_OPTIONS, LIGHTING_OPTIONS, AppStateSnapshot, Scene, DEFAULT_SCENE, getSceneKey, isDefaultScene, ScenePreset, ScenePresetKind, EditMask, GarmentColor, getLayerBaseImage } from './types.ts';
 import { ChevronDownIcon, ChevronUpIcon, XIcon } from './components/icons.tsx';
 import { defaultWardrobe } from './wardrobe.ts';
 import Footer from './components/Footer.tsx';
-import { getFriendlyErrorMessage } from './lib/utils.ts';
+import { getFriendlyErrorMessage, urlToFile } from './lib/utils.ts';
 import Spinner from './components/Spinner.tsx';
 import LanguageSwitcher from './components/LanguageSwitcher.tsx';
 import { useLanguage } from './contexts/LanguageContext.tsx';
 import LookbookTemplateModal from './components/LookbookTemplateModal.tsx';
 import { cn } from './lib/utils.ts';
+import { getColorLabel } from './lib/colors.ts';
+import { HistoryTree, createHistoryTree, addHistoryNode, setCurrentSnapshot, moveToHistoryNode, mapSnapshots, getUndoTarget, getRedoTarget, getSnapshotImage } from './lib/historyTree.ts';
 import CropModal from './components/CropModal.tsx';
+import CandidateChooserModal from './components/CandidateChooserModal.tsx';
+import ScenePresetModal, { ScenePresetDraft } from './components/ScenePresetModal.tsx';
+import PoseModal, { PoseDraft } from './components/PoseModal.tsx';
+import JobsTray from './components/JobsTray.tsx';
+import HistoryPanel from './components/HistoryPanel.tsx';
+import { saveSession, loadSession, loadSessionSummary, clearSession, SessionSummary } from './services/sessionStore.ts';
+import { loadWardrobe, addWardrobeItem, updateWardrobeItem, deleteWardrobeItem, WardrobeItemChanges } from './services/wardrobeStore.ts';
+import { loadScenePresets, addScenePreset, deleteScenePreset, loadCustomPoses, addCustomPose, deleteCustomPose } from './services/libraryStore.ts';
+import { loadRecentColors, saveRecentColors, MAX_RECENT_COLORS } from './services/recentColorStore.ts';
+import { createJobQueue, isJobPending, JobRequest, JobStatus } from './services/jobQueue.ts';
+import { isAbortError } from './services/errors.ts';
+import { storeImage, updateImageReferences, onImagesMoved, remapImageUrls, createImageHold, releaseImages, ImageHold } from './services/imageStore.ts';
 
+// Debounce autosaves so a burst of state updates is written once.
+const AUTOSAVE_DELAY_MS = 500;
+// Likewise for recounting which stored images are still in use.
+const IMAGE_SWEEP_DELAY_MS = 1000;
 
-type AppStateSnapshot = {
-  outfitHistory: OutfitLayer[];
-  currentOutfitIndex: number;
-  currentPoseIndex: number;
-  activeBackground: string;
-  activeLighting: string;
+// Lanes of the job queue. Outfit edits run one at a time because each builds on the last;
+// pose and scene jobs have no lane and run beside them.
+const OUTFIT_LANE = 'outfit';
+const POSE_BATCH_LANE = 'poseBatch';
+const LOOKBOOK_LANE = 'lookbook';
+const JOB_QUEUE_OPTIONS = {
+  concurrency: 3,
+  laneConcurrency: { [OUTFIT_LANE]: 1, [POSE_BATCH_LANE]: 2, [LOOKBOOK_LANE]: 1 },
 };
 
+type GarmentToApply = { file: File; info: WardrobeItem };
+
+type RebuildOptions = {
+  knownFiles?: Map<string, File>;
+  editLayer?: (signal: AbortSignal) => Promise<OutfitLayer>;
+  label?: string;
+};
+
+/** Where the layer built on `layerImage` sits in the stack now, or -1 if it is gone. */
+const findLayerIndex = (state: AppStateSnapshot, layerImage: string): number =>
+  state.outfitHistory.findIndex(layer => getLayerBaseImage(layer) === layerImage);
+
+
 const useMediaQuery = (query: string): boolean => {
   const [matches, setMatches] = useState(() => window.matchMedia(query).matches);
 
@@ -58,10 +91,8 @@ const App: React.FC = () => {
   const [modelImageUrl, setModelImageUrl] = useState<string | null>(null);
   const [outfitHistory, setOutfitHistory] = useState<OutfitLayer[]>([]);
   const [currentOutfitIndex, setCurrentOutfitIndex] = useState(0);
-  const [isLoading, setIsLoading] = useState(false);
-  const [loadingMessage, setLoadingMessage] = useState('');
   const [error, setError] = useState<string | null>(null);
-  const [currentPoseIndex, setCurrentPoseIndex] = useState(0);
+  const [currentPoseId, setCurrentPoseId] = useState(DEFAULT_POSE_ID);
   const [isSheetCollapsed, setIsSheetCollapsed] = useState(true);
   const [wardrobe, setWardrobe] = useState<WardrobeItem[]>(defaultWardrobe);
   const isMobile = useMediaQuery('(max-width: 767px)');
@@ -74,12 +105,62 @@ const App: React.FC = () => {
   const [lookbookUrl, setLookbookUrl] = useState<string | null>(null);
   const [activeBackground, setActiveBackground] = useState<string>('Default');
   const [activeLighting, setActiveLighting] = useState<string>('Default');
-  const [undoStack, setUndoStack] = useState<AppStateSnapshot[]>([]);
-  const [redoStack, setRedoStack] = useState<AppStateSnapshot[]>([]);
+  // Every step taken since the model was created, as a tree so earlier variants survive new edits.
+  const [historyTree, setHistoryTree] = useState<HistoryTree | null>(null);
   const [isLookbookTemplateModalOpen, setIsLookbookTemplateModalOpen] = useState(false);
   const [isCropModalOpen, setIsCropModalOpen] = useState(false);
+  const [scenePresets, setScenePresets] = useState<ScenePreset[]>([]);
+  const [scenePresetModalKind, setScenePresetModalKind] = useState<ScenePresetKind | null>(null);
+  const [customPoses, setCustomPoses] = useState<Pose[]>([]);
+  const [recentColors, setRecentColors] = useState<string[]>([]);
+  const [isPoseModalOpen, setIsPoseModalOpen] = useState(false);
+  // "Regenerate anyway": the next generation skips the result cache and asks for new images, then it turns off again.
+  const [skipCache, setSkipCache] = useState(false);
+  // How many images to ask for when trying on a garment or using the magic wand; above one, the user picks.
+  const [candidateCount, setCandidateCount] = useState(1);
+  const [editMask, setEditMask] = useState<EditMask | null>(null);
+  const [candidateChoice, setCandidateChoice] = useState<{ candidates: string[]; resolve: (chosen: string | null) => void } | null>(null);
+  const jobQueue = useMemo(() => createJobQueue<GenerationJobTarget>(JOB_QUEUE_OPTIONS), []);
+  const jobs = useSyncExternalStore(jobQueue.subscribe, jobQueue.getJobs);
+  const [savedSession, setSavedSession] = useState<SessionSummary | null>(null);
   const { t } = useLanguage();
 
+  useEffect(() => {
+    loadSessionSummary()
+      .then(setSavedSession)
+      .catch(err => console.error('Could not read the saved session.', err));
+    loadWardrobe()
+      .then(items => setWardrobe(prev => [...items, ...prev.filter(item => !items.some(saved => saved.id === item.id))]))
+      .catch(err => console.error('Could not load the wardrobe library.', err));
+    loadScenePresets()
+      .then(setScenePresets)
+      .catch(err => console.error('Could not load the scene presets.', err));
+    loadCustomPoses()
+      .then(setCustomPoses)
+      .catch(err => console.error('Could not load the custom poses.', err));
+    loadRecentColors()
+      .then(setRecentColors)
+      .catch(err => console.error('Could not load the recent colors.', err));
+  }, []);
+
+  useEffect(() => {
+    if (!modelImageUrl || !historyTree) return;
+    const timer = setTimeout(() => {
+      saveSession({
+        modelImageUrl,
+        outfitHistory,
+        currentOutfitIndex,
+        currentPoseId,
+        activeBackground,
+        activeLighting,
+        history: historyTree,
+      }).catch(err => console.error('Could not save the session.', err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [modelImageUrl, outfitHistory, currentOutfitIndex, currentPoseId, activeBackground, activeLighting, historyTree]);
+
+  const poses = useMemo(() => [...BUILT_IN_POSES, ...customPoses], [customPoses]);
+
   const activeOutfitLayers = useMemo(() => 
     outfitHistory.slice(0, currentOutfitIndex + 1), 
     [outfitHistory, currentOutfitIndex]
@@ -90,419 +171,856 @@ const App: React.FC = () => {
     [activeOutfitLayers]
   );
   
-  const displayImageUrl = useMemo(() => {
-    if (outfitHistory.length === 0) return modelImageUrl;
-    const currentLayer = outfitHistory[currentOutfitIndex];
-    if (!currentLayer) return modelImageUrl;
-
-    const poseInstruction = POSE_INSTRUCTIONS[currentPoseIndex];
-    
-    if (activeLighting !== 'Default' && currentLayer.lightingModifiedImages?.[poseInstruction]) {
-        return currentLayer.lightingModifiedImages[poseInstruction];
-    }
-    if (activeBackground !== 'Default' && currentLayer.backgroundModifiedImages?.[poseInstruction]) {
-        return currentLayer.backgroundModifiedImages[poseInstruction];
-    }
-    
-    return currentLayer.poseImages[poseInstruction] ?? Object.values(currentLayer.poseImages)[0];
-  }, [outfitHistory, currentOutfitIndex, currentPoseIndex, modelImageUrl, activeBackground, activeLighting]);
+  const displayImageUrl = useMemo(() =>
+    getSnapshotImage({ outfitHistory, currentOutfitIndex, currentPoseId, activeBackground, activeLighting }) ?? modelImageUrl,
+    [outfitHistory, currentOutfitIndex, currentPoseId, modelImageUrl, activeBackground, activeLighting]
+  );
 
-  const availablePoseKeys = useMemo(() => {
+  // In menu order, so the pose arrows step through poses the same way the menu lists them.
+  const availablePoseIds = useMemo(() => {
     if (outfitHistory.length === 0) return [];
     const currentLayer = outfitHistory[currentOutfitIndex];
-    return currentLayer ? Object.keys(currentLayer.poseImages) as PoseInstruction[] : [];
-  }, [outfitHistory, currentOutfitIndex]);
+    return currentLayer ? poses.filter(pose => currentLayer.poseImages[pose.id]).map(pose => pose.id) : [];
+  }, [outfitHistory, currentOutfitIndex, poses]);
 
   const getCurrentStateSnapshot = useCallback((): AppStateSnapshot => ({
     outfitHistory,
     currentOutfitIndex,
-    currentPoseIndex,
+    currentPoseId,
     activeBackground,
     activeLighting,
-  }), [outfitHistory, currentOutfitIndex, currentPoseIndex, activeBackground, activeLighting]);
+  }), [outfitHistory, currentOutfitIndex, currentPoseId, activeBackground, activeLighting]);
+
+  // The state as of the latest update. Jobs finish long after the render that started them,
+  // and several can finish in the same tick, so their updates build on this rather than on a closure.
+  const latestStateRef = useRef<AppStateSnapshot>(getCurrentStateSnapshot());
+  latestStateRef.current = getCurrentStateSnapshot();
+
+  // The history with the current node brought up to date, for the history panel's thumbnails.
+  const displayedHistory = useMemo(() =>
+    historyTree && setCurrentSnapshot(historyTree, getCurrentStateSnapshot()),
+    [historyTree, getCurrentStateSnapshot]
+  );
+
+  // Images the history, wardrobe and open dialogs no longer use are freed; what's on screen stays in memory.
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const onScreen = [latestStateRef.current, modelImageUrl, wardrobe, candidateChoice?.candidates, lookbookUrl];
+      updateImageReferences([displayedHistory, editMask, ...onScreen], onScreen);
+    }, IMAGE_SWEEP_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [displayedHistory, modelImageUrl, wardrobe, candidateChoice, lookbookUrl, editMask]);
+
+  // Images spilled out of memory get new URLs; only history and the mask can refer to them.
+  useEffect(() => onImagesMoved(moved => {
+    setHistoryTree(tree => tree && remapImageUrls(tree, moved));
+    setEditMask(mask => mask && remapImageUrls(mask, moved));
+  }), []);
+
+  const currentLayerImage = outfitHistory[currentOutfitIndex] ? getLayerBaseImage(outfitHistory[currentOutfitIndex]) : undefined;
+  const outfitJob = jobs.find(job => job.lane === OUTFIT_LANE && isJobPending(job));
+  const isOutfitBusy = !!outfitJob;
+  const isLookbookBusy = jobs.some(job => job.lane === LOOKBOOK_LANE && isJobPending(job));
+  const isGeneratingAllPoses = jobs.some(job => job.lane === POSE_BATCH_LANE && isJobPending(job));
+
+  const getMaskFor = (layerImage: string): string | undefined =>
+    editMask?.layerImage === layerImage ? editMask.dataUrl : undefined;
+  // An area can only be painted on a garment layer's own image, which is what edits change.
+  const canMask = currentOutfitIndex > 0 && !!currentLayerImage && displayImageUrl === currentLayerImage;
+  const currentMask = (currentLayerImage && getMaskFor(currentLayerImage)) ?? null;
+  const maskedLayerIndex = editMask ? outfitHistory.findIndex(layer => getLayerBaseImage(layer) === editMask.layerImage) : -1;
+
+  const handleMaskChange = (mask: string | null) => {
+    setEditMask(mask && currentLayerImage ? { layerImage: currentLayerImage, dataUrl: mask } : null);
+  };
+
+  /** Keeps a mask in place on the image an edit inside it produced, so further edits can reuse it. */
+  const carryMaskOver = (mask: string | undefined, newImageUrl: string) => {
+    if (mask) setEditMask({ layerImage: newImageUrl, dataUrl: mask });
+  };
+
+  const findPendingJob = (target: GenerationJobTarget) => jobs.find(job => isJobPending(job)
+    && job.target?.layerImage === target.layerImage
+    && job.target?.poseId === target.poseId
+    && job.target?.sceneKey === target.sceneKey);
+
+  // The latest pose job for each pose of the current layer; a retry replaces an earlier failure.
+  const poseStatuses = useMemo(() => {
+    const statuses: Record<string, JobStatus> = {};
+    for (const job of jobs) {
+      const { layerImage, poseId, sceneKey } = job.target ?? {};
+      if (layerImage === currentLayerImage && poseId && !sceneKey && job.status !== 'done') statuses[poseId] = job.status;
+    }
+    return statuses;
+  }, [jobs, currentLayerImage]);
+
+  const pendingSceneKeys = useMemo(() => jobs
+    .filter(job => isJobPending(job) && job.target?.layerImage === currentLayerImage && job.target?.poseId === currentPoseId && job.target?.sceneKey)
+    .map(job => job.target!.sceneKey!), [jobs, currentLayerImage, currentPoseId]);
+
+  const pendingLayerIndexes = useMemo(() => activeOutfitLayers
+    .map((layer, index) => jobs.some(job => isJobPending(job) && job.target?.layerImage === getLayerBaseImage(layer)) ? index : -1)
+    .filter(index => index !== -1), [jobs, activeOutfitLayers]);
 
   const applyStateSnapshot = (snapshot: AppStateSnapshot) => {
+    latestStateRef.current = snapshot;
     setOutfitHistory(snapshot.outfitHistory);
     setCurrentOutfitIndex(snapshot.currentOutfitIndex);
-    setCurrentPoseIndex(snapshot.currentPoseIndex);
+    setCurrentPoseId(snapshot.currentPoseId);
     setActiveBackground(snapshot.activeBackground);
     setActiveLighting(snapshot.activeLighting);
   };
   
   const updateStateWithHistory = (updater: (prevState: AppStateSnapshot) => AppStateSnapshot) => {
-    const currentState = getCurrentStateSnapshot();
+    const currentState = latestStateRef.current;
     const nextState = updater(currentState);
     
-    setUndoStack(prev => [...prev, currentState]);
-    setRedoStack([]); // Clear redo stack on new action
+    // A new action branches off the current node; whatever was ahead of it stays in the tree.
+    setHistoryTree(tree => tree && addHistoryNode(setCurrentSnapshot(tree, currentState), nextState));
     
     applyStateSnapshot(nextState);
   };
 
-  const handleUndo = () => {
-    if (undoStack.length === 0) return;
-    
-    const currentState = getCurrentStateSnapshot();
-    const lastState = undoStack[undoStack.length - 1];
-    
-    setRedoStack(prev => [...prev, currentState]);
-    setUndoStack(prev => prev.slice(0, -1));
-    
-    applyStateSnapshot(lastState);
+  /** Stores a generated image without an undo step: it adds to what a layer can show rather than changing it. */
+  const updateStateQuietly = (updater: (prevState: AppStateSnapshot) => AppStateSnapshot) => {
+    const nextState = updater(latestStateRef.current);
+    setHistoryTree(tree => tree && setCurrentSnapshot(tree, nextState));
+    applyStateSnapshot(nextState);
   };
-  
-  const handleRedo = () => {
-    if (redoStack.length === 0) return;
 
-    const currentState = getCurrentStateSnapshot();
-    const nextState = redoStack[redoStack.length - 1];
+  /**
+   * Queues a generation, holding the images of the state it starts from until it is over: the job
+   * reads them, maybe after the user has moved on, and finds its layer again by them when it's done.
+   */
+  const enqueueJob = <T,>(request: JobRequest<T, GenerationJobTarget>): Promise<T> => {
+    const hold = createImageHold();
+    hold.add(latestStateRef.current);
+    const job = jobQueue.enqueue({
+      ...request,
+      run: async (signal, setLabel) => {
+        const result = await request.run(signal, setLabel);
+        // A cancelled job's result is thrown away.
+        if (signal.aborted) releaseImages(result);
+        return result;
+      },
+    }).finally(hold.release);
+    // The job already captured skipCache, so later generations go back to using the cache.
+    setSkipCache(false);
+    return job;
+  };
 
-    setUndoStack(prev => [...prev, currentState]);
-    setRedoStack(prev => prev.slice(0, -1));
+  /**
+   * Queues a generation. Resolves with its result, or undefined if it failed (reported in the
+   * error panel) or was cancelled. Pass a function as `errorContext` if it depends on how far the job got.
+   */
+  const runJob = async <T,>(request: JobRequest<T, GenerationJobTarget>, errorContext: string | (() => string)): Promise<T | undefined> => {
+    setError(null);
+    try {
+      return await enqueueJob(request);
+    } catch (err) {
+      if (!isAbortError(err)) setError(getFriendlyErrorMessage(err, typeof errorContext === 'function' ? errorContext() : errorContext));
+      return undefined;
+    }
+  };
 
-    applyStateSnapshot(nextState);
+  /**
+   * Lets the user pick one of several candidates. Resolves with null if they close the chooser instead,
+   * and the candidates are let go.
+   */
+  const chooseCandidate = async (candidates: string[]): Promise<string | null> => {
+    if (candidates.length <= 1) return candidates[0] ?? null;
+    const chosen = await new Promise<string | null>(resolve => setCandidateChoice({ candidates, resolve }));
+    if (!chosen) releaseImages(candidates);
+    return chosen;
+  };
+
+  const handleCandidateChosen = (chosen: string | null) => {
+    candidateChoice?.resolve(chosen);
+    setCandidateChoice(null);
+  };
+
+  const handleCancelRequest = useCallback(() => {
+    jobQueue.cancelWhere(job => job.lane === OUTFIT_LANE);
+  }, [jobQueue]);
+
+  const handleGoToHistoryNode = (id: string) => {
+    if (!historyTree?.nodes[id] || id === historyTree.currentId) return;
+
+    const currentState = latestStateRef.current;
+    setHistoryTree(tree => tree && moveToHistoryNode(setCurrentSnapshot(tree, currentState), id));
+    applyStateSnapshot(historyTree.nodes[id].snapshot);
+  };
+
+  const undoTargetId = historyTree && getUndoTarget(historyTree);
+  const redoTargetId = historyTree && getRedoTarget(historyTree);
+
+  const handleUndo = () => {
+    if (undoTargetId) handleGoToHistoryNode(undoTargetId);
+  };
+  
+  const handleRedo = () => {
+    if (redoTargetId) handleGoToHistoryNode(redoTargetId);
   };
 
   const handleModelFinalized = (url: string) => {
+    // The new model replaces whatever session was saved before.
+    setSavedSession(null);
     setModelImageUrl(url);
-    setOutfitHistory([{
-      garment: null,
-      poseImages: { [POSE_INSTRUCTIONS[0]]: url },
-      backgroundModifiedImages: {},
-      lightingModifiedImages: {}
-    }]);
-    setCurrentOutfitIndex(0);
-    setUndoStack([]);
-    setRedoStack([]);
+    const initialState: AppStateSnapshot = {
+      outfitHistory: [{
+        garment: null,
+        poseImages: { [DEFAULT_POSE_ID]: url },
+        sceneImages: {}
+      }],
+      currentOutfitIndex: 0,
+      currentPoseId: DEFAULT_POSE_ID,
+      activeBackground: 'Default',
+      activeLighting: 'Default',
+    };
+    applyStateSnapshot(initialState);
+    setHistoryTree(createHistoryTree(initialState));
+  };
+
+  const handleResumeSession = async () => {
+    try {
+      const session = await loadSession();
+      setSavedSession(null);
+      jobQueue.cancelWhere(() => true);
+      jobQueue.clearFinished();
+      setEditMask(null);
+      if (!session) return;
+      setHistoryTree(session.history);
+      applyStateSnapshot(session);
+      setModelImageUrl(session.modelImageUrl);
+    } catch (err) {
+      console.error('Could not restore the saved session.', err);
+      setSavedSession(null);
+    }
+  };
+
+  const handleDiscardSession = () => {
+    setSavedSession(null);
+    clearSession().catch(err => console.error('Could not clear the saved session.', err));
   };
 
   const handleStartOver = () => {
+    jobQueue.cancelWhere(() => true);
+    jobQueue.clearFinished();
+    clearSession().catch(err => console.error('Could not clear the saved session.', err));
     setModelImageUrl(null);
     setOutfitHistory([]);
     setCurrentOutfitIndex(0);
-    setIsLoading(false);
-    setLoadingMessage('');
     setError(null);
-    setCurrentPoseIndex(0);
+    setCurrentPoseId(DEFAULT_POSE_ID);
     setIsSheetCollapsed(true);
-    setWardrobe(defaultWardrobe);
     setIsLookbookModalOpen(false);
     setLookbookUrl(null);
     setActiveBackground('Default');
     setActiveLighting('Default');
-    setUndoStack([]);
-    setRedoStack([]);
+    setHistoryTree(null);
     setIsLookbookTemplateModalOpen(false);
+    setEditMask(null);
+  };
+
+  /** Adds a newly used garment to the wardrobe library. */
+  const rememberGarment = (garmentInfo: WardrobeItem, garmentFile: File) => {
+    if (wardrobe.some(item => item.id === garmentInfo.id)) return;
+    setWardrobe(prev => [...prev, garmentInfo]);
+    addWardrobeItem(garmentInfo, garmentFile)
+      .then(saved => setWardrobe(prev => prev.map(item => item.id === saved.id ? saved : item)))
+      .catch(err => console.error('Could not save the garment to the wardrobe library.', err));
+  };
+
+  /**
+   * Applies `garments` one at a time on top of the last of `baseLayers`,
+   * showing which step is running in the job's label. Each new layer is added to `hold`.
+   */
+  const replayGarments = async (baseLayers: OutfitLayer[], garments: GarmentToApply[], hold: ImageHold, signal: AbortSignal, setLabel: (label: string) => void): Promise<OutfitLayer[]> => {
+    const layers = [...baseLayers];
+    for (const [step, { file, info }] of garments.entries()) {
+      signal.throwIfAborted();
+      setLabel(`${t('app.loading.replaying')} ${info.name} (${step + 1}/${garments.length})...`);
+      const baseImage = getLayerBaseImage(layers[layers.length - 1]);
+      if (!baseImage) throw new Error('Base image for layer not found.');
+      const newImageUrl = await generateVirtualTryOnImage(baseImage, file, info, { signal, skipCache });
+      hold.add(newImageUrl);
+      layers.push({
+        garment: info,
+        poseImages: { [DEFAULT_POSE_ID]: newImageUrl },
+        sceneImages: {}
+      });
+    }
+    return layers;
+  };
+
+  /**
+   * Keeps layers below `index` and re-applies `garments` on top of them, in order. With `editLayer`,
+   * the layer at `index` is replaced by its result first and `garments` go on top of that instead.
+   * Garment images are loaded from their URLs unless a file is given in `knownFiles`.
+   * Resolves with the new layers from `index` up, or undefined if the rebuild failed or was cancelled.
+   */
+  const rebuildOutfitFromLayer = async (
+    index: number,
+    garments: WardrobeItem[],
+    errorContext: string,
+    { knownFiles = new Map<string, File>(), editLayer, label = t('app.loading.replaying') }: RebuildOptions = {},
+  ): Promise<OutfitLayer[] | undefined> => {
+    const layerImage = outfitHistory[index] ? getLayerBaseImage(outfitHistory[index]) : undefined;
+    // A garment being swapped in is in no state until the rebuild is done, and may leave the wardrobe meanwhile.
+    const garmentHold = createImageHold();
+    garmentHold.add(garments);
+    const rebuiltLayers = await runJob({
+      label,
+      lane: OUTFIT_LANE,
+      target: { layerImage },
+      run: async (signal, setLabel) => {
+        const garmentsToApply = await Promise.all(garments.map(async info => ({
+          file: knownFiles.get(info.id) ?? await urlToFile(info.url, info.name),
+          info,
+        })));
+        // The layers made so far are in no state until the whole rebuild is done.
+        const hold = createImageHold();
+        try {
+          const baseLayers = outfitHistory.slice(0, index);
+          if (editLayer) {
+            baseLayers.push(await editLayer(signal));
+            hold.add(baseLayers[index]);
+          }
+          const layers = await replayGarments(baseLayers, garmentsToApply, hold, signal, setLabel);
+          return layers.slice(index);
+        } catch (err) {
+          hold.discard();
+          throw err;
+        } finally {
+          hold.release();
+        }
+      },
+    }, errorContext).finally(() => {
+      garmentHold.release();
+      releaseImages(garments);
+    });
+    if (!rebuiltLayers) return undefined;
+    updateStateWithHistory(prevState => {
+      // Layers below `index` are taken from the latest state, with any poses generated meanwhile.
+      const layers = [...prevState.outfitHistory.slice(0, index), ...rebuiltLayers];
+      return {
+        ...prevState,
+        outfitHistory: layers,
+        currentOutfitIndex: layers.length - 1,
+        currentPoseId: DEFAULT_POSE_ID,
+        activeBackground: 'Default',
+        activeLighting: 'Default',
+      };
+    });
+    return rebuiltLayers;
   };
 
   const handleGarmentSelect = useCallback(async (garmentFile: File, garmentInfo: WardrobeItem) => {
-    if (!displayImageUrl || isLoading) return;
+    const baseLayerImage = currentLayerImage;
+    if (!displayImageUrl || !baseLayerImage || isOutfitBusy) return;
 
     const nextLayer = outfitHistory[currentOutfitIndex + 1];
     if (nextLayer && nextLayer.garment?.id === garmentInfo.id) {
         updateStateWithHistory(prevState => ({
           ...prevState,
           currentOutfitIndex: prevState.currentOutfitIndex + 1,
-          currentPoseIndex: 0,
+          currentPoseId: DEFAULT_POSE_ID,
           activeBackground: 'Default',
           activeLighting: 'Default',
         }));
         return;
     }
 
-    setError(null);
-    setIsLoading(true);
-    setLoadingMessage(`${t('app.loading.adding')} ${garmentInfo.name}...`);
-    
+    // The garment is in no state until it is put on, and may leave the wardrobe meanwhile.
+    const garmentHold = createImageHold();
+    garmentHold.add(garmentInfo);
     try {
-      const newImageUrl = await generateVirtualTryOnImage(displayImageUrl, garmentFile, garmentInfo);
+      const candidates = await runJob({
+        label: `${t('app.loading.adding')} ${garmentInfo.name}...`,
+        lane: OUTFIT_LANE,
+        run: signal => generateVirtualTryOnCandidates(displayImageUrl, garmentFile, garmentInfo, { signal, skipCache, count: candidateCount }),
+      }, t('app.error.applyGarment'));
+      if (!candidates) return;
+      const newImageUrl = await chooseCandidate(candidates);
+      if (!newImageUrl) return;
+      // The user may have moved around the outfit meanwhile: the garment goes on the layer it was tried on,
+      // and is dropped if that layer is gone.
+      const baseIndex = findLayerIndex(latestStateRef.current, baseLayerImage);
+      if (baseIndex === -1) {
+        releaseImages(candidates);
+        return;
+      }
+      const alternates = candidates.filter(url => url !== newImageUrl);
       
       updateStateWithHistory(prevState => {
         const newLayer: OutfitLayer = { 
           garment: garmentInfo, 
-          poseImages: { [POSE_INSTRUCTIONS[0]]: newImageUrl },
-          backgroundModifiedImages: {},
-          lightingModifiedImages: {}
+          poseImages: { [DEFAULT_POSE_ID]: newImageUrl },
+          sceneImages: {},
+          alternates: alternates.length > 0 ? alternates : undefined,
         };
-        const newHistory = prevState.outfitHistory.slice(0, prevState.currentOutfitIndex + 1);
+        const newHistory = prevState.outfitHistory.slice(0, baseIndex + 1);
         return {
           outfitHistory: [...newHistory, newLayer],
           currentOutfitIndex: newHistory.length,
-          currentPoseIndex: 0,
+          currentPoseId: DEFAULT_POSE_ID,
           activeBackground: 'Default',
           activeLighting: 'Default',
         };
       });
       
-      setWardrobe(prev => {
-        if (prev.find(item => item.id === garmentInfo.id)) return prev;
-        return [...prev, garmentInfo];
-      });
-    } catch (err) {
-      setError(getFriendlyErrorMessage(err, t('app.error.applyGarment')));
+      rememberGarment(garmentInfo, garmentFile);
     } finally {
-      setIsLoading(false);
-      setLoadingMessage('');
+      garmentHold.release();
+      // A new upload that wasn't put on goes nowhere.
+      releaseImages(garmentInfo);
     }
-  }, [displayImageUrl, isLoading, outfitHistory, currentOutfitIndex, t, getCurrentStateSnapshot]);
+  }, [displayImageUrl, isOutfitBusy, outfitHistory, currentOutfitIndex, wardrobe, t, getCurrentStateSnapshot, skipCache, candidateCount]);
 
-  const handleRevertToLayer = useCallback((index: number) => {
-    updateStateWithHistory(prevState => {
-        const newHistory = prevState.outfitHistory.slice(0, index);
-        return {
-            ...prevState,
-            outfitHistory: newHistory,
-            currentOutfitIndex: index - 1,
-            currentPoseIndex: 0,
-            activeBackground: 'Default',
-            activeLighting: 'Default',
-        };
+  const handleUpdateWardrobeItem = useCallback((id: string, changes: WardrobeItemChanges) => {
+    setWardrobe(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+    // Layers keep their own copy of the garment, which replays take the category from; the whole history follows.
+    const updateGarment = (snapshot: AppStateSnapshot): AppStateSnapshot => ({
+      ...snapshot,
+      outfitHistory: snapshot.outfitHistory.map(layer =>
+        layer.garment?.id === id ? { ...layer, garment: { ...layer.garment, ...changes } } : layer),
     });
-  }, [getCurrentStateSnapshot]);
+    const nextState = updateGarment(latestStateRef.current);
+    setHistoryTree(tree => tree && setCurrentSnapshot(mapSnapshots(tree, updateGarment), nextState));
+    applyStateSnapshot(nextState);
+    updateWardrobeItem(id, changes)
+      .catch(err => console.error('Could not update the wardrobe item.', err));
+  }, []);
+
+  // The image goes once no layer wears the garment and no job needs it (see imageStore.ts).
+  const handleDeleteWardrobeItem = useCallback((id: string) => {
+    setWardrobe(prev => prev.filter(item => item.id !== id));
+    deleteWardrobeItem(id)
+      .catch(err => console.error('Could not delete the wardrobe item.', err));
+  }, []);
+
+  /** The garments of the active layers from `index` up to the current one. */
+  const activeGarmentsFrom = (index: number): WardrobeItem[] =>
+    outfitHistory.slice(index, currentOutfitIndex + 1).map(layer => layer.garment!);
+
+  const handleRemoveLayer = useCallback(async (index: number) => {
+    if (isOutfitBusy || index <= 0) return;
+
+    // Removing the top layer needs no generation: just step back to the layer below.
+    if (index === currentOutfitIndex) {
+      updateStateWithHistory(prevState => ({
+        ...prevState,
+        outfitHistory: prevState.outfitHistory.slice(0, index),
+        currentOutfitIndex: index - 1,
+        currentPoseId: DEFAULT_POSE_ID,
+        activeBackground: 'Default',
+        activeLighting: 'Default',
+      }));
+      return;
+    }
+
+    await rebuildOutfitFromLayer(index, activeGarmentsFrom(index + 1), t('app.error.removeLayer'));
+  }, [isOutfitBusy, outfitHistory, currentOutfitIndex, t, getCurrentStateSnapshot, skipCache]);
+
+  const handleSwapLayer = useCallback(async (index: number, garmentFile: File, garmentInfo: WardrobeItem) => {
+    if (isOutfitBusy || index <= 0) return;
+    const swapped = await rebuildOutfitFromLayer(
+      index,
+      [garmentInfo, ...activeGarmentsFrom(index + 1)],
+      t('app.error.swapLayer'),
+      { knownFiles: new Map([[garmentInfo.id, garmentFile]]) },
+    );
+    if (swapped) rememberGarment(garmentInfo, garmentFile);
+  }, [isOutfitBusy, outfitHistory, currentOutfitIndex, wardrobe, t, getCurrentStateSnapshot, skipCache]);
+
+  const handleReorderLayers = useCallback(async (fromIndex: number, toIndex: number) => {
+    if (isOutfitBusy || fromIndex === toIndex || fromIndex <= 0 || toIndex <= 0) return;
+    const garments = activeGarmentsFrom(1);
+    const [moved] = garments.splice(fromIndex - 1, 1);
+    garments.splice(toIndex - 1, 0, moved);
+    // Layers below the first moved position are unaffected and kept as they are.
+    const firstChangedIndex = Math.min(fromIndex, toIndex);
+    await rebuildOutfitFromLayer(firstChangedIndex, garments.slice(firstChangedIndex - 1), t('app.error.reorderLayers'));
+  }, [isOutfitBusy, outfitHistory, currentOutfitIndex, t, getCurrentStateSnapshot, skipCache]);
+
+  /** Adds a generated pose to the layer built on `layerImage`, wherever that layer is now. */
+  const storePoseImage = (layerImage: string, poseId: string, imageUrl: string) => {
+    updateStateQuietly(prevState => {
+      const layerIndex = findLayerIndex(prevState, layerImage);
+      if (layerIndex === -1) {
+        // The layer is gone, and the pose with it.
+        releaseImages(imageUrl);
+        return prevState;
+      }
+      const newHistory = [...prevState.outfitHistory];
+      const layer = newHistory[layerIndex];
+      newHistory[layerIndex] = { ...layer, poseImages: { ...layer.poseImages, [poseId]: imageUrl } };
+      return { ...prevState, outfitHistory: newHistory };
+    });
+  };
   
-  const handlePoseSelect = useCallback(async (newIndex: number) => {
-    if (isLoading || outfitHistory.length === 0 || newIndex === currentPoseIndex) return;
+  // `knownPoses` is passed explicitly when selecting a pose that was added in the same update.
+  const handlePoseSelect = useCallback(async (poseId: string, knownPoses: Pose[] = poses) => {
+    if (outfitHistory.length === 0 || poseId === currentPoseId) return;
     
-    const poseInstruction = POSE_INSTRUCTIONS[newIndex];
+    const pose = knownPoses.find(p => p.id === poseId);
     const currentLayer = outfitHistory[currentOutfitIndex];
 
-    if (currentLayer.poseImages[poseInstruction]) {
+    if (currentLayer.poseImages[poseId]) {
       updateStateWithHistory(prevState => ({
         ...prevState,
-        currentPoseIndex: newIndex,
+        currentPoseId: poseId,
         activeBackground: 'Default',
         activeLighting: 'Default',
       }));
       return;
     }
 
-    const baseImageForPoseChange = Object.values(currentLayer.poseImages)[0];
-    if (!baseImageForPoseChange) return;
+    const layerImage = getLayerBaseImage(currentLayer);
+    // Nothing to do if the pose is already on its way, e.g. from "generate all poses".
+    if (!layerImage || !pose || findPendingJob({ layerImage, poseId })) return;
 
-    setError(null);
-    setIsLoading(true);
-    setLoadingMessage(t('app.loading.posing'));
-    
-    const prevPoseIndex = currentPoseIndex;
-    setCurrentPoseIndex(newIndex);
+    const fromPoseId = currentPoseId;
+    const newImageUrl = await runJob({
+      label: `${t('app.loading.posing')} ${getPoseLabel(pose, t)}`,
+      target: { layerImage, poseId },
+      run: signal => generatePoseVariation(layerImage, pose.instruction, pose.referenceImageUrl, { signal, skipCache }),
+    }, t('app.error.changePose'));
+    if (!newImageUrl) return;
 
-    try {
-      const newImageUrl = await generatePoseVariation(baseImageForPoseChange, poseInstruction);
-      updateStateWithHistory(prevState => {
-        const newHistory = [...prevState.outfitHistory];
-        const updatedLayer = { ...newHistory[prevState.currentOutfitIndex] };
-        updatedLayer.poseImages[poseInstruction] = newImageUrl;
-        newHistory[prevState.currentOutfitIndex] = updatedLayer;
-        return {
-            ...prevState,
-            outfitHistory: newHistory,
-            currentPoseIndex: newIndex,
-            activeBackground: 'Default',
-            activeLighting: 'Default',
-        };
-      });
-    } catch (err) {
-      setError(getFriendlyErrorMessage(err, t('app.error.changePose')));
-      setCurrentPoseIndex(prevPoseIndex);
-    } finally {
-      setIsLoading(false);
-      setLoadingMessage('');
+    storePoseImage(layerImage, poseId, newImageUrl);
+    // Switch to the new pose only if the user is still where they asked for it.
+    const latest = latestStateRef.current;
+    if (findLayerIndex(latest, layerImage) === latest.currentOutfitIndex && latest.currentPoseId === fromPoseId) {
+      updateStateWithHistory(prevState => ({
+        ...prevState,
+        currentPoseId: poseId,
+        activeBackground: 'Default',
+        activeLighting: 'Default',
+      }));
     }
-  }, [currentPoseIndex, outfitHistory, isLoading, currentOutfitIndex, t, getCurrentStateSnapshot]);
+  }, [currentPoseId, poses, jobs, outfitHistory, currentOutfitIndex, t, getCurrentStateSnapshot, skipCache]);
 
-  const handleColorChangeAtIndex = useCallback(async (index: number, newColor: string) => {
-    const layerToEdit = outfitHistory[index];
-    const baseImage = layerToEdit?.poseImages?.[POSE_INSTRUCTIONS[0]] ?? Object.values(layerToEdit.poseImages)[0];
-    if (!baseImage || isLoading) return;
-    
-    setError(null);
-    setIsLoading(true);
-    setLoadingMessage(`${t('app.loading.coloring')} ${newColor}...`);
+  const handleGenerateAllPoses = useCallback(() => {
+    const layer = outfitHistory[currentOutfitIndex];
+    const layerImage = layer && getLayerBaseImage(layer);
+    if (!layerImage) return;
 
-    try {
-        const newImageUrl = await changeGarmentColor(baseImage, newColor);
-        updateStateWithHistory(prevState => {
-            const historyBeforeEdit = prevState.outfitHistory.slice(0, index);
-            const editedLayer: OutfitLayer = { 
-                ...prevState.outfitHistory[index],
-                poseImages: { [POSE_INSTRUCTIONS[0]]: newImageUrl },
-                backgroundModifiedImages: {}, 
-                lightingModifiedImages: {} 
-            };
-            return {
-              ...prevState,
-              outfitHistory: [...historyBeforeEdit, editedLayer],
-              currentOutfitIndex: index,
-              currentPoseIndex: 0,
-              activeBackground: 'Default',
-              activeLighting: 'Default',
-            };
+    for (const pose of poses) {
+      if (layer.poseImages[pose.id] || findPendingJob({ layerImage, poseId: pose.id })) continue;
+      // Failures stay in the jobs tray and on the pose menu rather than in the error panel.
+      enqueueJob({
+        label: `${t('app.loading.posing')} ${getPoseLabel(pose, t)}`,
+        lane: POSE_BATCH_LANE,
+        target: { layerImage, poseId: pose.id },
+        run: signal => generatePoseVariation(layerImage, pose.instruction, pose.referenceImageUrl, { signal, skipCache }),
+      })
+        .then(newImageUrl => storePoseImage(layerImage, pose.id, newImageUrl))
+        .catch(err => {
+          if (!isAbortError(err)) console.error(`Could not generate pose "${pose.instruction}".`, err);
         });
-    } catch (err) {
-        setError(getFriendlyErrorMessage(err, t('app.error.changeColor')));
-    } finally {
-        setIsLoading(false);
-        setLoadingMessage('');
     }
-  }, [outfitHistory, isLoading, t, getCurrentStateSnapshot]);
-  
-  const handleBackgroundChange = useCallback(async (backgroundPrompt: string) => {
-    if (isLoading) return;
+  }, [currentOutfitIndex, outfitHistory, poses, jobs, t, skipCache]);
 
-    if (backgroundPrompt === 'Default') {
-        updateStateWithHistory(prevState => ({ ...prevState, activeBackground: 'Default' }));
-        return;
-    }
+  const handleStopPoseBatch = useCallback(() => {
+    jobQueue.cancelWhere(job => job.lane === POSE_BATCH_LANE);
+  }, [jobQueue]);
 
-    const currentLayer = outfitHistory[currentOutfitIndex];
-    const currentPoseKey = POSE_INSTRUCTIONS[currentPoseIndex];
-    const baseImageForModification = currentLayer?.poseImages?.[currentPoseKey];
+  const handleSavePose = (draft: PoseDraft, referenceImage: File | null, tryNow: boolean) => {
+    const pose: Pose = {
+      ...draft,
+      id: crypto.randomUUID(),
+      referenceImageUrl: referenceImage ? URL.createObjectURL(referenceImage) : undefined,
+      createdAt: Date.now(),
+    };
+    setCustomPoses(prev => [...prev, pose]);
+    setIsPoseModalOpen(false);
+    addCustomPose(pose, referenceImage ?? undefined)
+      .catch(err => console.error('Could not save the custom pose.', err));
+    if (tryNow) {
+      handlePoseSelect(pose.id, [...poses, pose]);
+    }
+  };
 
-    if (!baseImageForModification) {
-        setError(getFriendlyErrorMessage('Base image for pose not found.', t('app.error.changeBackground')));
-        return;
+  const handleDeletePose = useCallback((id: string) => {
+    const deletedPose = customPoses.find(pose => pose.id === id);
+    if (!deletedPose) return;
+    setCustomPoses(prev => prev.filter(pose => pose.id !== id));
+    // Jobs for the pose may still read its reference image, which is freed with it.
+    jobQueue.cancelWhere(job => job.target?.poseId === id);
+    if (latestStateRef.current.currentPoseId === id) {
+      updateStateQuietly(prevState => ({
+        ...prevState,
+        currentPoseId: DEFAULT_POSE_ID,
+        activeBackground: 'Default',
+        activeLighting: 'Default',
+      }));
     }
-    
-    const promptForAPI = backgroundPrompt === 'Studio Background' 
-        ? 'a clean, neutral studio backdrop (light gray, #f0f0f0)' 
-        : backgroundPrompt;
+    deleteCustomPose(deletedPose)
+      .catch(err => console.error('Could not delete the custom pose.', err));
+  }, [customPoses, jobQueue]);
 
-    setError(null);
-    setIsLoading(true);
-    setLoadingMessage(t('app.loading.background'));
+  /**
+   * Replaces the layer at `index` with an edited image and drops the layers above it.
+   * `alternates` are the candidates passed over for it; earlier ones belong to the old image and are dropped.
+   */
+  const applyLayerEdit = (index: number, newImageUrl: string, alternates: string[] = []) => {
+    updateStateWithHistory(prevState => {
+        const historyBeforeEdit = prevState.outfitHistory.slice(0, index);
+        const editedLayer: OutfitLayer = { 
+            ...prevState.outfitHistory[index],
+            poseImages: { [DEFAULT_POSE_ID]: newImageUrl },
+            sceneImages: {},
+            alternates: alternates.length > 0 ? alternates : undefined,
+        };
+        return {
+          ...prevState,
+          outfitHistory: [...historyBeforeEdit, editedLayer],
+          currentOutfitIndex: index,
+          currentPoseId: DEFAULT_POSE_ID,
+          activeBackground: 'Default',
+          activeLighting: 'Default',
+        };
+    });
+  };
 
-    try {
-        const newImageUrl = await changeBackground(baseImageForModification, promptForAPI);
-        updateStateWithHistory(prevState => {
-          const newHistory = [...prevState.outfitHistory];
-          const layerToUpdate = { ...newHistory[prevState.currentOutfitIndex] };
-          if (!layerToUpdate.backgroundModifiedImages) layerToUpdate.backgroundModifiedImages = {};
-          layerToUpdate.backgroundModifiedImages[currentPoseKey] = newImageUrl;
-          newHistory[prevState.currentOutfitIndex] = layerToUpdate;
-          return {
-            ...prevState,
-            outfitHistory: newHistory,
-            activeBackground: backgroundPrompt,
-            activeLighting: 'Default',
-          };
-        });
-    } catch (err) {
-        setError(getFriendlyErrorMessage(err, t('app.error.changeBackground')));
-    } finally {
-        setIsLoading(false);
-        setLoadingMessage('');
-    }
-  }, [isLoading, currentOutfitIndex, currentPoseIndex, t, outfitHistory, getCurrentStateSnapshot]);
+  const rememberColor = (hex: string) => {
+    const colors = [hex, ...recentColors.filter(color => color !== hex)].slice(0, MAX_RECENT_COLORS);
+    setRecentColors(colors);
+    saveRecentColors(colors).catch(err => console.error('Could not save the recent colors.', err));
+  };
 
-  const handleLightingChange = useCallback(async (lightingPrompt: string) => {
-    if (isLoading) return;
+  const handleColorChangeAtIndex = useCallback(async (index: number, newColor: GarmentColor) => {
+    const layerToEdit = outfitHistory[index];
+    const baseImage = layerToEdit && getLayerBaseImage(layerToEdit);
+    if (!baseImage || isOutfitBusy) return;
+    rememberColor(newColor.hex);
 
-    if (lightingPrompt === 'Default') {
-        updateStateWithHistory(prevState => ({ ...prevState, activeLighting: 'Default' }));
-        return;
-    }
+    const mask = getMaskFor(baseImage);
+    const garment = layerToEdit.garment ?? undefined;
+    // Recolor this layer's garment, then put the garments above it back on in their order.
+    const rebuiltLayers = await rebuildOutfitFromLayer(index, activeGarmentsFrom(index + 1), t('app.error.changeColor'), {
+      label: `${t('app.loading.coloring')} ${getColorLabel(newColor.hex, t)}...`,
+      editLayer: async signal => {
+        const garmentImage = garment && await urlToFile(garment.url, garment.name);
+        const newImageUrl = await changeGarmentColor(baseImage, newColor, { garment, garmentImage, maskUrl: mask }, { signal, skipCache });
+        return { ...layerToEdit, poseImages: { [DEFAULT_POSE_ID]: newImageUrl }, sceneImages: {}, alternates: undefined };
+      },
+    });
+    const recoloredImage = rebuiltLayers && getLayerBaseImage(rebuiltLayers[0]);
+    if (recoloredImage) carryMaskOver(mask, recoloredImage);
+  }, [outfitHistory, isOutfitBusy, currentOutfitIndex, t, getCurrentStateSnapshot, skipCache, editMask, recentColors]);
 
+  const handleFabricChangeAtIndex = useCallback(async (index: number, swatch: File, note: string) => {
+    const layerToEdit = outfitHistory[index];
+    const baseImage = layerToEdit && getLayerBaseImage(layerToEdit);
+    if (!baseImage || isOutfitBusy) return;
+
+    const mask = getMaskFor(baseImage);
+    const garment = layerToEdit.garment ?? undefined;
+    // Same as a recolor: change this layer's garment, then replay the garments above it.
+    const rebuiltLayers = await rebuildOutfitFromLayer(index, activeGarmentsFrom(index + 1), t('app.error.changeFabric'), {
+      label: t('app.loading.fabric'),
+      editLayer: async signal => {
+        const garmentImage = garment && await urlToFile(garment.url, garment.name);
+        const newImageUrl = await changeGarmentFabric(baseImage, swatch, note, { garment, garmentImage, maskUrl: mask }, { signal, skipCache });
+        return { ...layerToEdit, poseImages: { [DEFAULT_POSE_ID]: newImageUrl }, sceneImages: {}, alternates: undefined };
+      },
+    });
+    const changedImage = rebuiltLayers && getLayerBaseImage(rebuiltLayers[0]);
+    if (changedImage) carryMaskOver(mask, changedImage);
+  }, [outfitHistory, isOutfitBusy, currentOutfitIndex, t, getCurrentStateSnapshot, skipCache, editMask]);
+  
+  // `presets` is passed explicitly when applying a preset that was saved in the same update.
+  const handleSceneChange = useCallback(async (scene: Scene, presets: ScenePreset[] = scenePresets) => {
     const currentLayer = outfitHistory[currentOutfitIndex];
-    const currentPoseKey = POSE_INSTRUCTIONS[currentPoseIndex];
-    const baseImageForModification = currentLayer?.poseImages?.[currentPoseKey];
+    const poseId = currentPoseId;
+    const baseImageForModification = currentLayer?.poseImages?.[poseId];
+    const layerImage = currentLayer && getLayerBaseImage(currentLayer);
+    const sceneKey = getSceneKey(scene);
 
-    if (!baseImageForModification) {
-        setError(getFriendlyErrorMessage('Base image for pose not found.', t('app.error.changeLighting')));
+    if (isDefaultScene(scene) || currentLayer?.sceneImages?.[poseId]?.[sceneKey]) {
+        updateStateWithHistory(prevState => ({ ...prevState, activeBackground: scene.background, activeLighting: scene.lighting }));
         return;
     }
 
-    setError(null);
-    setIsLoading(true);
-    setLoadingMessage(t('app.loading.lighting'));
+    if (!baseImageForModification || !layerImage) {
+        setError(getFriendlyErrorMessage('Base image for pose not found.', t('app.error.changeBackground')));
+        return;
+    }
+    if (findPendingJob({ layerImage, poseId, sceneKey })) return;
 
-    try {
-        const newImageUrl = await changeLighting(baseImageForModification, lightingPrompt);
-        updateStateWithHistory(prevState => {
-          const newHistory = [...prevState.outfitHistory];
-          const layerToUpdate = { ...newHistory[prevState.currentOutfitIndex] };
-          if (!layerToUpdate.lightingModifiedImages) layerToUpdate.lightingModifiedImages = {};
-          layerToUpdate.lightingModifiedImages[currentPoseKey] = newImageUrl;
-          newHistory[prevState.currentOutfitIndex] = layerToUpdate;
-          return {
-            ...prevState,
-            outfitHistory: newHistory,
-            activeLighting: lightingPrompt,
-            activeBackground: 'Default',
-          };
-        });
-    } catch (err) {
-        setError(getFriendlyErrorMessage(err, t('app.error.changeLighting')));
-    } finally {
-        setIsLoading(false);
-        setLoadingMessage('');
+    const fromScene = getSceneKey({ background: activeBackground, lighting: activeLighting });
+    let errorContext = t('app.error.changeBackground');
+    const newImages = await runJob({
+      label: t('app.loading.background'),
+      target: { layerImage, poseId, sceneKey },
+      run: async (signal, setLabel) => {
+        // Background first, then lighting on top of it, so the light matches the new surroundings.
+        // The background-only image is cached too and reused for every lighting on that background.
+        const cachedImages = { ...currentLayer.sceneImages?.[poseId] };
+        let sceneImage = baseImageForModification;
+        // The background-only image is in no state while the lighting is being made.
+        const hold = createImageHold();
+        try {
+            if (scene.background !== 'Default') {
+                const backgroundKey = getSceneKey({ ...DEFAULT_SCENE, background: scene.background });
+                if (!cachedImages[backgroundKey]) {
+                    const preset = presets.find(p => p.id === scene.background);
+                    const promptForAPI = preset?.prompt ?? (scene.background === 'Studio Background'
+                        ? 'a clean, neutral studio backdrop (light gray, #f0f0f0)'
+                        : scene.background);
+                    cachedImages[backgroundKey] = await changeBackground(sceneImage, promptForAPI, preset?.referenceImageUrl, { signal, skipCache });
+                    hold.add(cachedImages[backgroundKey]);
+                }
+                sceneImage = cachedImages[backgroundKey];
+            }
+            if (scene.lighting !== 'Default') {
+                setLabel(t('app.loading.lighting'));
+                errorContext = t('app.error.changeLighting');
+                const lightingPrompt = presets.find(p => p.id === scene.lighting)?.prompt ?? scene.lighting;
+                cachedImages[sceneKey] = await changeLighting(sceneImage, lightingPrompt, { signal, skipCache });
+            }
+            return cachedImages;
+        } catch (err) {
+            hold.discard();
+            throw err;
+        } finally {
+            hold.release();
+        }
+      },
+    }, () => errorContext);
+    if (!newImages) return;
+
+    updateStateQuietly(prevState => {
+      const layerIndex = findLayerIndex(prevState, layerImage);
+      if (layerIndex === -1) {
+        releaseImages(newImages);
+        return prevState;
+      }
+      const newHistory = [...prevState.outfitHistory];
+      const layerToUpdate = newHistory[layerIndex];
+      newHistory[layerIndex] = {
+        ...layerToUpdate,
+        sceneImages: { ...layerToUpdate.sceneImages, [poseId]: { ...layerToUpdate.sceneImages?.[poseId], ...newImages } },
+      };
+      return { ...prevState, outfitHistory: newHistory };
+    });
+    // Switch to the new scene only if the user is still looking at what they changed.
+    const latest = latestStateRef.current;
+    if (findLayerIndex(latest, layerImage) === latest.currentOutfitIndex && latest.currentPoseId === poseId
+      && getSceneKey({ background: latest.activeBackground, lighting: latest.activeLighting }) === fromScene) {
+      updateStateWithHistory(prevState => ({ ...prevState, activeBackground: scene.background, activeLighting: scene.lighting }));
+    }
+  }, [currentOutfitIndex, currentPoseId, activeBackground, activeLighting, t, outfitHistory, scenePresets, jobs, getCurrentStateSnapshot, skipCache]);
+
+  const handleSaveScenePreset = (draft: ScenePresetDraft, referenceImage: File | null, apply: boolean) => {
+    const preset: ScenePreset = {
+      ...draft,
+      id: crypto.randomUUID(),
+      referenceImageUrl: referenceImage ? URL.createObjectURL(referenceImage) : undefined,
+      createdAt: Date.now(),
+    };
+    const presets = [...scenePresets, preset];
+    setScenePresets(presets);
+    setScenePresetModalKind(null);
+    addScenePreset(preset, referenceImage ?? undefined)
+      .catch(err => console.error('Could not save the scene preset.', err));
+    if (apply) {
+      handleSceneChange({ background: activeBackground, lighting: activeLighting, [preset.kind]: preset.id }, presets);
+    }
+  };
+
+  const handleDeleteScenePreset = useCallback((id: string) => {
+    const deletedPreset = scenePresets.find(preset => preset.id === id);
+    if (!deletedPreset) return;
+    setScenePresets(prev => prev.filter(preset => preset.id !== id));
+    const latest = latestStateRef.current;
+    const activeScene: Scene = { background: latest.activeBackground, lighting: latest.activeLighting };
+    if (activeScene[deletedPreset.kind] === id) {
+      updateStateQuietly(prevState => {
+        const scene: Scene = { background: prevState.activeBackground, lighting: prevState.activeLighting, [deletedPreset.kind]: 'Default' };
+        const layer = prevState.outfitHistory[prevState.currentOutfitIndex];
+        // What is left of the scene may never have been made; then the picture goes back to no scene at all.
+        const { background, lighting } = isDefaultScene(scene) || layer?.sceneImages?.[prevState.currentPoseId]?.[getSceneKey(scene)]
+          ? scene
+          : DEFAULT_SCENE;
+        return { ...prevState, activeBackground: background, activeLighting: lighting };
+      });
     }
-  }, [isLoading, currentOutfitIndex, currentPoseIndex, t, outfitHistory, getCurrentStateSnapshot]);
+    deleteScenePreset(deletedPreset)
+      .catch(err => console.error('Could not delete the scene preset.', err));
+  }, [scenePresets]);
 
   const handleMagicWandEditAtIndex = useCallback(async (index: number, instruction: string) => {
     const layerToEdit = outfitHistory[index];
-    const baseImage = layerToEdit?.poseImages?.[POSE_INSTRUCTIONS[0]] ?? Object.values(layerToEdit.poseImages)[0];
-    if (!baseImage || isLoading) return;
+    const baseImage = layerToEdit && getLayerBaseImage(layerToEdit);
+    if (!baseImage || isOutfitBusy) return;
 
-    setError(null);
-    setIsLoading(true);
-    setLoadingMessage(t('magicWand.label'));
-
-    try {
-        const newImageUrl = await magicWandEdit(baseImage, instruction);
-        updateStateWithHistory(prevState => {
-            const historyBeforeEdit = prevState.outfitHistory.slice(0, index);
-            const editedLayer: OutfitLayer = { 
-                ...prevState.outfitHistory[index],
-                poseImages: { [POSE_INSTRUCTIONS[0]]: newImageUrl },
-                backgroundModifiedImages: {}, 
-                lightingModifiedImages: {} 
-            };
-            return {
-              ...prevState,
-              outfitHistory: [...historyBeforeEdit, editedLayer],
-              currentOutfitIndex: index,
-              currentPoseIndex: 0,
-              activeBackground: 'Default',
-              activeLighting: 'Default',
-            };
-        });
-    } catch (err) {
-        setError(getFriendlyErrorMessage(err, t('magicWand.error')));
-    } finally {
-        setIsLoading(false);
-        setLoadingMessage('');
+    const mask = getMaskFor(baseImage);
+    const candidates = await runJob({
+      label: t('magicWand.label'),
+      lane: OUTFIT_LANE,
+      target: { layerImage: baseImage },
+      run: signal => magicWandEditCandidates(baseImage, instruction, mask, { signal, skipCache, count: candidateCount }),
+    }, t('magicWand.error'));
+    if (!candidates) return;
+    const newImageUrl = await chooseCandidate(candidates);
+    if (!newImageUrl) return;
+    // The edit replaces the layer it was made from, wherever that is now, and is dropped if it is gone.
+    const layerIndex = findLayerIndex(latestStateRef.current, baseImage);
+    if (layerIndex === -1) {
+      releaseImages(candidates);
+      return;
     }
-  }, [outfitHistory, isLoading, t, getCurrentStateSnapshot]);
+    const alternates = candidates.filter(url => url !== newImageUrl);
+    const garmentsAbove = activeGarmentsFrom(layerIndex + 1);
+    if (garmentsAbove.length === 0) {
+      applyLayerEdit(layerIndex, newImageUrl, alternates);
+    } else {
+      // As with a recolor, the garments above the edited layer are put back on over the new image.
+      const editedLayer = latestStateRef.current.outfitHistory[layerIndex];
+      const rebuiltLayers = await rebuildOutfitFromLayer(layerIndex, garmentsAbove, t('magicWand.error'), {
+        label: t('magicWand.label'),
+        editLayer: async () => ({
+          ...editedLayer,
+          poseImages: { [DEFAULT_POSE_ID]: newImageUrl },
+          sceneImages: {},
+          alternates: alternates.length > 0 ? alternates : undefined,
+        }),
+      });
+      if (!rebuiltLayers) {
+        releaseImages(candidates);
+        return;
+      }
+    }
+    carryMaskOver(mask, newImageUrl);
+  }, [outfitHistory, isOutfitBusy, currentOutfitIndex, t, getCurrentStateSnapshot, skipCache, candidateCount, editMask]);
   
   const handleGenerateLookbook = useCallback(async (templatePrompt: string) => {
     setIsLookbookTemplateModalOpen(false);
-    if (isLoading || activeOutfitLayers.length <= 1) {
+    if (isLookbookBusy || activeOutfitLayers.length <= 1) {
         setError(t('app.error.lookbook.addGarment'));
         return;
     }
-    setError(null);
-    setIsLoading(true);
-    setLoadingMessage(t('app.loading.lookbook'));
 
-    try {
-        const imageUrls = activeOutfitLayers
-            .map(layer => Object.values(layer.poseImages)[0])
-            .filter((url): url is string => !!url);
-
-        if (imageUrls.length > 1) {
-            const resultUrl = await generateLookbook(imageUrls, templatePrompt);
-            setLookbookUrl(resultUrl);
-            setIsLookbookModalOpen(true);
-        } else {
-            setError(t('app.error.lookbook.notEnough'));
-        }
-    } catch (err) {
-        setError(getFriendlyErrorMessage(err, t('app.error.lookbook.generate')));
-    } finally {
-        setIsLoading(false);
-        setLoadingMessage('');
+    const imageUrls = activeOutfitLayers
+        .map(layer => Object.values(layer.poseImages)[0])
+        .filter((url): url is string => !!url);
+    if (imageUrls.length <= 1) {
+        setError(t('app.error.lookbook.notEnough'));
+        return;
     }
-  }, [isLoading, activeOutfitLayers, t]);
+
+    const resultUrl = await runJob({
+      label: t('app.loading.lookbook'),
+      lane: LOOKBOOK_LANE,
+      run: signal => generateLookbook(imageUrls, templatePrompt, { signal, skipCache }),
+    }, t('app.error.lookbook.generate'));
+    if (!resultUrl) return;
+    setLookbookUrl(resultUrl);
+    setIsLookbookModalOpen(true);
+  }, [isLookbookBusy, activeOutfitLayers, t, skipCache]);
 
   const handleOpenLookbookTemplates = () => setIsLookbookTemplateModalOpen(true);
 
@@ -512,9 +1030,10 @@ const App: React.FC = () => {
     }
   };
 
-  const handleImageCrop = useCallback((croppedImageUrl: string) => {
+  const handleImageCrop = useCallback(async (croppedDataUrl: string) => {
     setIsCropModalOpen(false);
-    if (!croppedImageUrl) return;
+    if (!croppedDataUrl) return;
+    const croppedImageUrl = await storeImage(croppedDataUrl);
 
     updateStateWithHistory(prevState => {
       const indexToEdit = prevState.currentOutfitIndex;
@@ -524,16 +1043,15 @@ const App: React.FC = () => {
       
       const croppedLayer: OutfitLayer = { 
         ...originalLayer,
-        poseImages: { [POSE_INSTRUCTIONS[prevState.currentPoseIndex]]: croppedImageUrl },
-        backgroundModifiedImages: {}, 
-        lightingModifiedImages: {} 
+        poseImages: { [prevState.currentPoseId]: croppedImageUrl },
+        sceneImages: {}
       };
 
       return {
         ...prevState,
         outfitHistory: [...historyBeforeEdit, croppedLayer],
         currentOutfitIndex: indexToEdit,
-        currentPoseIndex: prevState.currentPoseIndex,
+        currentPoseId: prevState.currentPoseId,
         activeBackground: 'Default',
         activeLighting: 'Default',
       };
@@ -563,7 +1081,12 @@ const App: React.FC = () => {
             exit="exit"
             transition={{ duration: 0.5, ease: 'easeInOut' }}
           >
-            <StartScreen onModelFinalized={handleModelFinalized} />
+            <StartScreen
+              onModelFinalized={handleModelFinalized}
+              savedSession={savedSession}
+              onResumeSession={handleResumeSession}
+              onDiscardSession={handleDiscardSession}
+            />
           </motion.div>
         ) : (
           <motion.div
@@ -575,6 +1098,19 @@ const App: React.FC = () => {
             exit="exit"
             transition={{ duration: 0.5, ease: 'easeInOut' }}
           >
+            <JobsTray
+              jobs={jobs}
+              onCancel={jobQueue.cancel}
+              onDismiss={jobQueue.dismiss}
+              onClearFinished={jobQueue.clearFinished}
+            />
+            {displayedHistory && (
+              <HistoryPanel
+                history={displayedHistory}
+                onSelect={handleGoToHistoryNode}
+                disabled={isOutfitBusy}
+              />
+            )}
             <main className={`flex-grow relative flex ${isPanelDocked ? 'flex-row' : 'flex-col'} md:flex-row overflow-hidden`}>
               <div className={cn("w-full h-full flex-grow flex items-center justify-center bg-transparent relative",
                 isPanelDocked ? 'pr-[40%]' : 'pb-16 md:pb-0'
@@ -582,25 +1118,41 @@ const App: React.FC = () => {
                 <Canvas 
                   displayImageUrl={displayImageUrl}
                   onStartOver={handleStartOver}
-                  isLoading={isLoading}
-                  loadingMessage={loadingMessage}
+                  isLoading={isOutfitBusy}
+                  loadingMessage={outfitJob?.label ?? ''}
+                  onCancelLoading={handleCancelRequest}
                   onSelectPose={handlePoseSelect}
-                  poseInstructions={POSE_INSTRUCTIONS}
-                  currentPoseIndex={currentPoseIndex}
-                  availablePoseKeys={availablePoseKeys}
-                  onBackgroundChange={handleBackgroundChange}
+                  poses={poses}
+                  currentPoseId={currentPoseId}
+                  availablePoseIds={availablePoseIds}
+                  poseStatuses={poseStatuses}
+                  pendingSceneKeys={pendingSceneKeys}
+                  isGeneratingAllPoses={isGeneratingAllPoses}
+                  onGenerateAllPoses={handleGenerateAllPoses}
+                  onStopGeneratingPoses={handleStopPoseBatch}
+                  onAddPose={() => setIsPoseModalOpen(true)}
+                  onDeletePose={handleDeletePose}
+                  onSceneChange={handleSceneChange}
+                  activeScene={{ background: activeBackground, lighting: activeLighting }}
                   backgroundOptions={BACKGROUND_OPTIONS}
-                  onOpenLookbookTemplates={handleOpenLookbookTemplates}
-                  activeBackground={activeBackground}
-                  onLightingChange={handleLightingChange}
                   lightingOptions={LIGHTING_OPTIONS}
-                  activeLighting={activeLighting}
+                  scenePresets={scenePresets}
+                  onAddScenePreset={setScenePresetModalKind}
+                  onDeleteScenePreset={handleDeleteScenePreset}
+                  onOpenLookbookTemplates={handleOpenLookbookTemplates}
                   onUndo={handleUndo}
                   onRedo={handleRedo}
-                  canUndo={undoStack.length > 0}
-                  canRedo={redoStack.length > 0}
+                  canUndo={!!undoTargetId}
+                  canRedo={!!redoTargetId}
                   isPanelOpenOnMobile={isPanelOpenOnMobile}
                   onOpenCropModal={handleOpenCropModal}
+                  skipCache={skipCache}
+                  onSkipCacheChange={setSkipCache}
+                  candidateCount={candidateCount}
+                  onCandidateCountChange={setCandidateCount}
+                  canMask={canMask && !isOutfitBusy}
+                  mask={currentMask}
+                  onMaskChange={handleMaskChange}
                 />
               </div>
 
@@ -635,22 +1187,31 @@ const App: React.FC = () => {
                     )}
                     <OutfitStack 
                       outfitHistory={activeOutfitLayers}
-                      onRevertToLayer={handleRevertToLayer}
+                      onRemoveLayer={handleRemoveLayer}
+                      onSwapLayer={handleSwapLayer}
+                      onReorderLayers={handleReorderLayers}
+                      wardrobe={wardrobe}
                       onGarmentColorChangeAtIndex={handleColorChangeAtIndex}
+                      onGarmentFabricChangeAtIndex={handleFabricChangeAtIndex}
                       onMagicWandEditAtIndex={handleMagicWandEditAtIndex}
-                      isLoading={isLoading}
+                      isLoading={isOutfitBusy}
+                      pendingLayerIndexes={pendingLayerIndexes}
+                      maskedLayerIndex={maskedLayerIndex === -1 ? null : maskedLayerIndex}
+                      recentColors={recentColors}
                     />
                     <WardrobePanel
                       onGarmentSelect={handleGarmentSelect}
                       activeGarmentIds={activeGarmentIds}
-                      isLoading={isLoading}
+                      isLoading={isOutfitBusy}
                       wardrobe={wardrobe}
+                      onUpdateItem={handleUpdateWardrobeItem}
+                      onDeleteItem={handleDeleteWardrobeItem}
                     />
                   </div>
               </aside>
             </main>
             <AnimatePresence>
-              {isLoading && isMobile && (
+              {outfitJob && isMobile && (
                 <motion.div
                   className="fixed inset-0 bg-black/50 backdrop-blur-md flex flex-col items-center justify-center z-50"
                   initial={{ opacity: 0 }}
@@ -658,9 +1219,15 @@ const App: React.FC = () => {
                   exit={{ opacity: 0 }}
                 >
                   <Spinner />
-                  {loadingMessage && (
-                    <p className="text-lg font-serif text-gray-200 mt-4 text-center px-4">{loadingMessage}</p>
+                  {outfitJob.label && (
+                    <p className="text-lg font-serif text-gray-200 mt-4 text-center px-4">{outfitJob.label}</p>
                   )}
+                  <button
+                    onClick={handleCancelRequest}
+                    className="mt-6 bg-white/10 text-white font-semibold py-2 px-5 rounded-full border border-white/20 hover:bg-white/20 active:scale-95 transition-all"
+                  >
+                    {t('app.loading.cancel')}
+                  </button>
                 </motion.div>
               )}
             </AnimatePresence>
@@ -668,7 +1235,7 @@ const App: React.FC = () => {
               isOpen={isLookbookTemplateModalOpen}
               onClose={() => setIsLookbookTemplateModalOpen(false)}
               onGenerate={handleGenerateLookbook}
-              isLoading={isLoading}
+              isLoading={isLookbookBusy}
             />
              <AnimatePresence>
               {isLookbookModalOpen && lookbookUrl && (
@@ -712,6 +1279,21 @@ const App: React.FC = () => {
               imageUrl={displayImageUrl}
               onCropComplete={handleImageCrop}
             />
+            <CandidateChooserModal
+              candidates={candidateChoice?.candidates ?? null}
+              onChoose={handleCandidateChosen}
+              onClose={() => handleCandidateChosen(null)}
+            />
+            <ScenePresetModal
+              kind={scenePresetModalKind}
+              onClose={() => setScenePresetModalKind(null)}
+              onSave={handleSaveScenePreset}
+            />
+            <PoseModal
+              isOpen={isPoseModalOpen}
+              onClose={() => setIsPoseModalOpen(false)}
+              onSave={handleSavePose}
+            />
           </motion.div>
         )}
       </AnimatePresence>
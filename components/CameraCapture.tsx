@@ -0,0 +1,246 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { useLanguage } from '../contexts/LanguageContext.tsx';
+import { CameraIcon, RotateCcwIcon, XIcon } from './icons.tsx';
+
+interface CameraCaptureProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCapture: (file: File) => void;
+}
+
+type CameraError = 'permissionDenied' | 'unavailable';
+
+const CAMERA_ERROR_KEYS = {
+  permissionDenied: 'camera.error.permissionDenied',
+  unavailable: 'camera.error.unavailable',
+} as const satisfies Record<CameraError, string>;
+
+// Seconds to wait before taking the photo, so there's time to step back into the frame.
+const COUNTDOWN_OPTIONS = [0, 3, 10];
+// Width to height of the captured photo: portrait, like the framing guide.
+const FRAME_ASPECT = 3 / 4;
+
+// Crops the visible middle of the current video frame to FRAME_ASPECT, as the preview shows it.
+function captureFrame(video: HTMLVideoElement): Promise<Blob | null> {
+  const { videoWidth, videoHeight } = video;
+  const sourceWidth = Math.min(videoWidth, videoHeight * FRAME_ASPECT);
+  const sourceHeight = sourceWidth / FRAME_ASPECT;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(sourceWidth);
+  canvas.height = Math.round(sourceHeight);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.resolve(null);
+  // The preview is mirrored so moving feels natural, but the photo isn't: text on clothes must read the right way.
+  ctx.drawImage(
+    video,
+    (videoWidth - sourceWidth) / 2,
+    (videoHeight - sourceHeight) / 2,
+    sourceWidth,
+    sourceHeight,
+    0,
+    0,
+    canvas.width,
+    canvas.height,
+  );
+  return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.92));
+}
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ isOpen, onClose, onCapture }) => {
+  const { t } = useLanguage();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [cameraError, setCameraError] = useState<CameraError | null>(null);
+  const [countdownSeconds, setCountdownSeconds] = useState(3);
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [capturedFile, setCapturedFile] = useState<File | null>(null);
+  const [capturedUrl, setCapturedUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setCameraError('unavailable');
+      return;
+    }
+    let isCancelled = false;
+    let activeStream: MediaStream | null = null;
+    navigator.mediaDevices.getUserMedia({
+      video: { facingMode: 'user', width: { ideal: 1920 }, height: { ideal: 1080 } },
+      audio: false,
+    })
+      .then(mediaStream => {
+        if (isCancelled) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        activeStream = mediaStream;
+        setStream(mediaStream);
+      })
+      .catch(err => {
+        if (isCancelled) return;
+        console.warn('Could not start the camera.', err);
+        setCameraError(err instanceof DOMException && err.name === 'NotAllowedError' ? 'permissionDenied' : 'unavailable');
+      });
+    return () => {
+      isCancelled = true;
+      activeStream?.getTracks().forEach(track => track.stop());
+      setStream(null);
+      setIsReady(false);
+      setCameraError(null);
+      setCountdown(null);
+      setCapturedFile(null);
+    };
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream, capturedUrl]);
+
+  useEffect(() => {
+    if (!capturedFile) {
+      setCapturedUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(capturedFile);
+    setCapturedUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [capturedFile]);
+
+  const takePhoto = useCallback(async () => {
+    const video = videoRef.current;
+    if (!video) return;
+    const blob = await captureFrame(video);
+    if (blob) setCapturedFile(new File([blob], `camera-${Date.now()}.jpg`, { type: 'image/jpeg' }));
+  }, []);
+
+  useEffect(() => {
+    if (countdown === null) return;
+    if (countdown === 0) {
+      setCountdown(null);
+      takePhoto();
+      return;
+    }
+    const timer = setTimeout(() => setCountdown(countdown - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [countdown, takePhoto]);
+
+  const handleConfirm = () => {
+    if (capturedFile) onCapture(capturedFile);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/60 backdrop-blur-lg z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.9, y: 20 }}
+        className="relative bg-gray-800/30 backdrop-blur-2xl border border-white/20 p-6 rounded-2xl shadow-2xl max-w-md w-full flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-2xl font-serif text-center text-white">{t('camera.title')}</h2>
+        <p className="mt-1 text-sm text-gray-300 text-center">{t('camera.guide')}</p>
+
+        <div className="mt-4 relative w-full max-h-[60vh] aspect-[3/4] mx-auto rounded-xl overflow-hidden bg-black/40 border border-white/10">
+          {capturedUrl ? (
+            <img src={capturedUrl} alt={t('camera.captured')} className="w-full h-full object-cover" />
+          ) : (
+            <>
+              <video
+                ref={videoRef}
+                autoPlay
+                playsInline
+                muted
+                onLoadedMetadata={() => setIsReady(true)}
+                className="w-full h-full object-cover -scale-x-100"
+              />
+              {isReady && (
+                <svg viewBox="0 0 300 400" className="absolute inset-0 w-full h-full pointer-events-none" aria-hidden="true">
+                  <g fill="none" stroke="white" strokeOpacity="0.7" strokeWidth="2" strokeDasharray="8 6">
+                    <ellipse cx="150" cy="62" rx="24" ry="30" />
+                    <path d="M150 94 C118 94 100 104 96 132 L86 232 M150 94 C182 94 200 104 204 132 L214 232 M112 130 L114 244 L122 372 M188 130 L186 244 L178 372 M150 250 L146 372 M150 250 L154 372 M114 244 L186 244" />
+                  </g>
+                </svg>
+              )}
+              {countdown !== null && (
+                <div className="absolute inset-0 flex items-center justify-center bg-black/20">
+                  <span className="text-8xl font-serif font-bold text-white drop-shadow-lg">{countdown}</span>
+                </div>
+              )}
+              {cameraError && (
+                <div className="absolute inset-0 flex items-center justify-center p-6 text-center">
+                  <p className="text-red-200">{t(CAMERA_ERROR_KEYS[cameraError])}</p>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {capturedUrl ? (
+          <div className="mt-4 flex gap-2">
+            <button
+              onClick={() => setCapturedFile(null)}
+              className="flex-1 flex items-center justify-center bg-black/20 text-white font-semibold py-3 px-4 rounded-lg border border-white/20 hover:bg-white/20 active:scale-95 transition-all"
+            >
+              <RotateCcwIcon className="w-4 h-4 mr-2" />
+              {t('camera.retake')}
+            </button>
+            <button
+              onClick={handleConfirm}
+              className="flex-1 bg-white/10 text-white font-semibold py-3 px-4 rounded-lg border border-white/20 hover:bg-white/20 active:scale-95 transition-all"
+            >
+              {t('camera.usePhoto')}
+            </button>
+          </div>
+        ) : (
+          <>
+            <div className="mt-4 flex items-center justify-center gap-2 text-sm text-gray-300">
+              <span>{t('camera.timer')}</span>
+              {COUNTDOWN_OPTIONS.map(seconds => (
+                <button
+                  key={seconds}
+                  onClick={() => setCountdownSeconds(seconds)}
+                  disabled={countdown !== null}
+                  className={`px-3 py-1 rounded-full border transition-colors ${countdownSeconds === seconds ? 'bg-white text-gray-900 border-white' : 'border-white/20 text-white hover:bg-white/10'}`}
+                >
+                  {seconds === 0 ? t('camera.noTimer') : `${seconds}s`}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => (countdown === null ? setCountdown(countdownSeconds) : setCountdown(null))}
+              disabled={!isReady || !!cameraError}
+              className="mt-4 w-full flex items-center justify-center bg-white/10 text-white font-semibold py-3 px-4 rounded-lg border border-white/20 hover:bg-white/20 active:scale-95 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <CameraIcon className="w-5 h-5 mr-2" />
+              {countdown === null ? t('camera.capture') : t('camera.cancelTimer')}
+            </button>
+          </>
+        )}
+
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 p-2 rounded-full bg-white/10 hover:bg-white/20"
+          aria-label={t('app.lookbook.close')}
+        >
+          <XIcon className="w-5 h-5 text-white" />
+        </button>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default CameraCapture;
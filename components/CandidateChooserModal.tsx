@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { motion } from 'framer-motion';
+import { XIcon } from './icons.tsx';
+import { useLanguage } from '../contexts/LanguageContext.tsx';
+
+interface CandidateChooserModalProps {
+  /** The images to choose from; the modal is closed while this is null. */
+  candidates: string[] | null;
+  onChoose: (candidateUrl: string) => void;
+  onClose: () => void;
+}
+
+const CandidateChooserModal: React.FC<CandidateChooserModalProps> = ({ candidates, onChoose, onClose }) => {
+  const { t } = useLanguage();
+
+  if (!candidates) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/60 backdrop-blur-lg z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.9, y: 20 }}
+        className="relative bg-gray-800/30 backdrop-blur-2xl border border-white/20 p-6 rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-2xl font-serif text-center text-white">{t('candidates.title')}</h2>
+        <p className="mt-2 mb-6 text-sm text-center text-gray-300">{t('candidates.description')}</p>
+        <div className={`grid gap-4 ${candidates.length > 2 ? 'grid-cols-2 sm:grid-cols-4' : 'grid-cols-2'}`}>
+          {candidates.map((url, index) => (
+            <button
+              key={url}
+              onClick={() => onChoose(url)}
+              className="group relative aspect-[2/3] rounded-lg overflow-hidden border border-white/20 hover:border-white focus:outline-none focus:ring-2 focus:ring-white transition-colors"
+              aria-label={`${t('candidates.choose')} ${index + 1}`}
+            >
+              <img src={url} alt={`${t('candidates.candidate')} ${index + 1}`} className="w-full h-full object-cover" />
+              <span className="absolute inset-x-0 bottom-0 py-2 text-sm font-semibold text-white bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity">
+                {t('candidates.choose')}
+              </span>
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 p-2 rounded-full bg-white/10 hover:bg-white/20"
+          aria-label={t('candidates.discard')}
+        >
+          <XIcon className="w-5 h-5 text-white" />
+        </button>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default CandidateChooserModal;
@@ -2,105 +2,200 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState } from 'react';
-import { RotateCcwIcon, ChevronLeftIcon, ChevronRightIcon, BookOpenIcon, SunIcon, DownloadIcon, UndoIcon, RedoIcon, MenuIcon, CropIcon } from './icons.tsx';
+import React, { useEffect, useState } from 'react';
+import { RotateCcwIcon, ChevronLeftIcon, ChevronRightIcon, BookOpenIcon, SunIcon, DownloadIcon, UndoIcon, RedoIcon, MenuIcon, CropIcon, RefreshCwIcon, BrushIcon, PlusIcon, XIcon, LoaderIcon, ClockIcon, AlertCircleIcon } from './icons.tsx';
 import Spinner from './Spinner.tsx';
+import EditorCanvas from './EditorCanvas.tsx';
+import Toolbar from './Toolbar.tsx';
+import ToolOptions from './ToolOptions.tsx';
 import { AnimatePresence, motion } from 'framer-motion';
 import { useLanguage } from '../contexts/LanguageContext.tsx';
-import { PoseInstruction, BackgroundOption, LightingOption } from '../types.ts';
+import { Pose, BackgroundOption, LightingOption, Scene, ScenePreset, ScenePresetKind, MaskTool, getSceneKey, getPoseLabel } from '../types.ts';
+import { JobStatus } from '../services/jobQueue.ts';
 
 interface CanvasProps {
   displayImageUrl: string | null;
   onStartOver: () => void;
   isLoading: boolean;
   loadingMessage: string;
-  onSelectPose: (index: number) => void;
-  poseInstructions: readonly PoseInstruction[];
-  currentPoseIndex: number;
-  availablePoseKeys: readonly PoseInstruction[];
-  onBackgroundChange: (prompt: string) => void;
+  onCancelLoading: () => void;
+  onSelectPose: (poseId: string) => void;
+  poses: readonly Pose[];
+  currentPoseId: string;
+  availablePoseIds: readonly string[];
+  poseStatuses: Record<string, JobStatus>;
+  /** Scene keys still generating for the current layer and pose. */
+  pendingSceneKeys: string[];
+  isGeneratingAllPoses: boolean;
+  onGenerateAllPoses: () => void;
+  onStopGeneratingPoses: () => void;
+  onAddPose: () => void;
+  onDeletePose: (poseId: string) => void;
+  onSceneChange: (scene: Scene) => void;
+  activeScene: Scene;
   backgroundOptions: readonly BackgroundOption[];
-  onOpenLookbookTemplates: () => void;
-  activeBackground: string;
-  onLightingChange: (prompt: string) => void;
   lightingOptions: readonly LightingOption[];
-  activeLighting: string;
+  scenePresets: ScenePreset[];
+  onAddScenePreset: (kind: ScenePresetKind) => void;
+  onDeleteScenePreset: (id: string) => void;
+  onOpenLookbookTemplates: () => void;
   onUndo: () => void;
   onRedo: () => void;
   canUndo: boolean;
   canRedo: boolean;
   isPanelOpenOnMobile?: boolean;
   onOpenCropModal: () => void;
+  /** Whether generations skip cached results ("regenerate anyway"). */
+  skipCache: boolean;
+  onSkipCacheChange: (skipCache: boolean) => void;
+  /** How many candidates try-ons and magic wand edits ask for. */
+  candidateCount: number;
+  onCandidateCountChange: (count: number) => void;
+  /** Whether an area can be selected: only on a garment layer's own image, before poses or scenes. */
+  canMask: boolean;
+  /** The selected area of the current image (see `EditMask`), or null for none. */
+  mask: string | null;
+  onMaskChange: (mask: string | null) => void;
 }
 
+const CANDIDATE_COUNTS = [1, 2, 3, 4];
+
 const Canvas: React.FC<CanvasProps> = ({ 
   displayImageUrl, 
   onStartOver, 
   isLoading, 
   loadingMessage, 
+  onCancelLoading,
   onSelectPose, 
-  poseInstructions, 
-  currentPoseIndex, 
-  availablePoseKeys,
-  onBackgroundChange,
+  poses, 
+  currentPoseId, 
+  availablePoseIds,
+  poseStatuses,
+  pendingSceneKeys,
+  isGeneratingAllPoses,
+  onGenerateAllPoses,
+  onStopGeneratingPoses,
+  onAddPose,
+  onDeletePose,
+  onSceneChange,
+  activeScene,
   backgroundOptions,
-  onOpenLookbookTemplates,
-  activeBackground,
-  onLightingChange,
   lightingOptions,
-  activeLighting,
+  scenePresets,
+  onAddScenePreset,
+  onDeleteScenePreset,
+  onOpenLookbookTemplates,
   onUndo,
   onRedo,
   canUndo,
   canRedo,
   isPanelOpenOnMobile = false,
-  onOpenCropModal
+  onOpenCropModal,
+  skipCache,
+  onSkipCacheChange,
+  candidateCount,
+  onCandidateCountChange,
+  canMask,
+  mask,
+  onMaskChange
 }) => {
   const [isPoseMenuOpen, setIsPoseMenuOpen] = useState(false);
   const [isOptionsMenuOpen, setIsOptionsMenuOpen] = useState(false);
+  // Background and lighting are picked together and applied in one go.
+  const [pendingScene, setPendingScene] = useState<Scene>(activeScene);
+  const [isMasking, setIsMasking] = useState(false);
+  const [maskTool, setMaskTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(30);
   const { t } = useLanguage();
+
+  useEffect(() => {
+    setPendingScene(activeScene);
+  }, [activeScene.background, activeScene.lighting]);
+
+  // Leave the mask editor when the image changes to one an area can't be selected on.
+  useEffect(() => {
+    if (!canMask) setIsMasking(false);
+  }, [canMask]);
+
+  const isScenePending = pendingScene.background !== activeScene.background || pendingScene.lighting !== activeScene.lighting;
+  const isPendingSceneGenerating = pendingSceneKeys.includes(getSceneKey(pendingScene));
+
+  const renderScenePresets = (kind: ScenePresetKind) => (
+    <>
+      {scenePresets.filter(preset => preset.kind === kind).map(preset => (
+        <div key={preset.id} className="relative group">
+          <button
+            onClick={() => setPendingScene(prev => ({ ...prev, [kind]: preset.id }))}
+            disabled={isLoading || preset.id === pendingScene[kind]}
+            title={preset.prompt}
+            className="w-full text-left text-sm font-medium text-gray-200 p-2 pr-6 rounded-md hover:bg-white/10 disabled:opacity-50 disabled:bg-white/10 disabled:font-bold disabled:cursor-not-allowed truncate"
+          >
+            {preset.name}
+          </button>
+          <button
+            onClick={() => onDeleteScenePreset(preset.id)}
+            disabled={isLoading}
+            className="absolute top-1/2 -translate-y-1/2 right-1 p-1 rounded-full text-gray-400 hover:text-white hover:bg-white/10 opacity-0 group-hover:opacity-100 focus:opacity-100 disabled:hidden"
+            aria-label={`${t('scenePresets.delete')} ${preset.name}`}
+          >
+            <XIcon className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => onAddScenePreset(kind)}
+        disabled={isLoading}
+        className="w-full flex items-center gap-1.5 text-left text-sm font-medium text-gray-300 p-2 rounded-md hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <PlusIcon className="w-3.5 h-3.5" />
+        <span>{t('canvas.customScene')}</span>
+      </button>
+    </>
+  );
   
+  const currentPoseIndex = Math.max(0, poses.findIndex(pose => pose.id === currentPoseId));
+  const currentPose = poses[currentPoseIndex];
+  const missingPoseCount = poses.filter(pose => !availablePoseIds.includes(pose.id)).length;
+  const pendingPoseCount = Object.values(poseStatuses).filter(status => status !== 'failed').length;
+
+  const renderPoseStatus = (poseId: string) => {
+    // A failure only matters while the pose is still missing; a later manual retry may have filled it.
+    const status = poseStatuses[poseId];
+    if (status === 'running') return <LoaderIcon className="w-3.5 h-3.5 shrink-0 animate-spin" aria-label={t('canvas.poseRunning')} />;
+    if (status === 'queued') return <ClockIcon className="w-3.5 h-3.5 shrink-0 text-gray-400" aria-label={t('canvas.poseQueued')} />;
+    if (status === 'failed' && !availablePoseIds.includes(poseId)) return <AlertCircleIcon className="w-3.5 h-3.5 shrink-0 text-red-400" aria-label={t('canvas.poseFailed')} />;
+    return null;
+  };
+
   const handlePreviousPose = () => {
-    if (isLoading || availablePoseKeys.length <= 1) return;
+    if (isLoading || availablePoseIds.length <= 1) return;
 
-    const currentPoseInstruction = poseInstructions[currentPoseIndex];
-    const currentIndexInAvailable = availablePoseKeys.indexOf(currentPoseInstruction);
+    const currentIndexInAvailable = availablePoseIds.indexOf(currentPoseId);
     
     if (currentIndexInAvailable === -1) {
-        onSelectPose((currentPoseIndex - 1 + poseInstructions.length) % poseInstructions.length);
+        onSelectPose(poses[(currentPoseIndex - 1 + poses.length) % poses.length].id);
         return;
     }
 
-    const prevIndexInAvailable = (currentIndexInAvailable - 1 + availablePoseKeys.length) % availablePoseKeys.length;
-    const prevPoseInstruction = availablePoseKeys[prevIndexInAvailable];
-    const newGlobalPoseIndex = poseInstructions.indexOf(prevPoseInstruction);
-    
-    if (newGlobalPoseIndex !== -1) {
-        onSelectPose(newGlobalPoseIndex);
-    }
+    const prevIndexInAvailable = (currentIndexInAvailable - 1 + availablePoseIds.length) % availablePoseIds.length;
+    onSelectPose(availablePoseIds[prevIndexInAvailable]);
   };
 
   const handleNextPose = () => {
     if (isLoading) return;
 
-    const currentPoseInstruction = poseInstructions[currentPoseIndex];
-    const currentIndexInAvailable = availablePoseKeys.indexOf(currentPoseInstruction);
+    const currentIndexInAvailable = availablePoseIds.indexOf(currentPoseId);
 
-    if (currentIndexInAvailable === -1 || availablePoseKeys.length === 0) {
-        onSelectPose((currentPoseIndex + 1) % poseInstructions.length);
+    if (currentIndexInAvailable === -1 || availablePoseIds.length === 0) {
+        onSelectPose(poses[(currentPoseIndex + 1) % poses.length].id);
         return;
     }
     
     const nextIndexInAvailable = currentIndexInAvailable + 1;
-    if (nextIndexInAvailable < availablePoseKeys.length) {
-        const nextPoseInstruction = availablePoseKeys[nextIndexInAvailable];
-        const newGlobalPoseIndex = poseInstructions.indexOf(nextPoseInstruction);
-        if (newGlobalPoseIndex !== -1) {
-            onSelectPose(newGlobalPoseIndex);
-        }
+    if (nextIndexInAvailable < availablePoseIds.length) {
+        onSelectPose(availablePoseIds[nextIndexInAvailable]);
     } else {
-        const newGlobalPoseIndex = (currentPoseIndex + 1) % poseInstructions.length;
-        onSelectPose(newGlobalPoseIndex);
+        onSelectPose(poses[(currentPoseIndex + 1) % poses.length].id);
     }
   };
 
@@ -132,10 +227,28 @@ const Canvas: React.FC<CanvasProps> = ({
             <RedoIcon className="w-4 h-4 text-white" />
           </button>
         </div>
+        {mask && !isMasking && (
+          <div className="flex items-center gap-1 bg-black/20 backdrop-blur-md border border-white/20 rounded-full pl-3 pr-1 py-1 text-sm text-white">
+            <button onClick={() => setIsMasking(true)} disabled={!canMask || isLoading} className="font-medium hover:underline disabled:no-underline disabled:cursor-not-allowed">
+              {t('canvas.areaSelected')}
+            </button>
+            <button onClick={() => onMaskChange(null)} disabled={isLoading} aria-label={t('canvas.clearArea')} className="p-1 rounded-full hover:bg-white/10 disabled:opacity-50">
+              <XIcon className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        )}
       </div>
 
       <div className="relative w-full h-full flex items-center justify-center">
-        {displayImageUrl ? (
+        {displayImageUrl && isMasking ? (
+          <EditorCanvas
+            imageUrl={displayImageUrl}
+            tool={maskTool}
+            brushSize={brushSize}
+            mask={mask}
+            onMaskChange={onMaskChange}
+          />
+        ) : displayImageUrl ? (
           <img
             key={displayImageUrl}
             src={displayImageUrl}
@@ -161,12 +274,31 @@ const Canvas: React.FC<CanvasProps> = ({
                   {loadingMessage && (
                       <p className="text-lg font-serif text-gray-200 mt-4 text-center px-4">{loadingMessage}</p>
                   )}
+                  <button
+                      onClick={onCancelLoading}
+                      className="mt-6 bg-white/10 text-white font-semibold py-2 px-5 rounded-full border border-white/20 hover:bg-white/20 active:scale-95 transition-all"
+                  >
+                      {t('app.loading.cancel')}
+                  </button>
               </motion.div>
           )}
         </AnimatePresence>
       </div>
 
-      {displayImageUrl && !isLoading && !isPanelOpenOnMobile && (
+      {isMasking && (
+        <div className="absolute top-16 left-1/2 -translate-x-1/2 z-30 flex flex-col items-center gap-2">
+          <Toolbar
+            tool={maskTool}
+            onToolChange={setMaskTool}
+            canClear={!!mask}
+            onClear={() => onMaskChange(null)}
+            onDone={() => setIsMasking(false)}
+          />
+          <ToolOptions tool={maskTool} brushSize={brushSize} onBrushSizeChange={setBrushSize} />
+        </div>
+      )}
+
+      {displayImageUrl && !isLoading && !isPanelOpenOnMobile && !isMasking && (
         <div 
           className="absolute bottom-6 left-1/2 -translate-x-1/2 z-30 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity duration-300 flex items-start gap-2"
         >
@@ -191,37 +323,58 @@ const Canvas: React.FC<CanvasProps> = ({
                     className="absolute bottom-full mb-3 w-56 sm:w-64 bg-black/40 backdrop-blur-xl rounded-xl p-2 border border-white/20 flex flex-col gap-1"
                 >
                   <div>
-                      <p className="text-xs text-gray-400 px-2 pt-1 font-semibold uppercase">Lighting</p>
+                      <p className="text-xs text-gray-400 px-2 pt-1 font-semibold uppercase">{t('canvas.lighting')}</p>
                       <div className="grid grid-cols-2 gap-1 mt-1">
                           {lightingOptions.map((lt) => (
                               <button
                                   key={lt}
-                                  onClick={() => onLightingChange(lt)}
-                                  disabled={isLoading || lt === activeLighting}
+                                  onClick={() => setPendingScene(prev => ({ ...prev, lighting: lt }))}
+                                  disabled={isLoading || lt === pendingScene.lighting}
                                   className="w-full text-left text-sm font-medium text-gray-200 p-2 rounded-md hover:bg-white/10 disabled:opacity-50 disabled:bg-white/10 disabled:font-bold disabled:cursor-not-allowed"
                               >
                                   {t(`lighting.${lt}`, lt)}
                               </button>
                           ))}
+                          {renderScenePresets('lighting')}
                       </div>
                   </div>
                   <hr className="border-white/10 my-1" />
                   <div>
-                      <p className="text-xs text-gray-400 px-2 pt-1 font-semibold uppercase">Background</p>
+                      <p className="text-xs text-gray-400 px-2 pt-1 font-semibold uppercase">{t('canvas.background')}</p>
                       <div className="grid grid-cols-2 gap-1 mt-1">
                           {backgroundOptions.map((bg) => (
                               <button
                                   key={bg}
-                                  onClick={() => onBackgroundChange(bg)}
-                                  disabled={isLoading || bg === activeBackground}
+                                  onClick={() => setPendingScene(prev => ({ ...prev, background: bg }))}
+                                  disabled={isLoading || bg === pendingScene.background}
                                   className="w-full text-left text-sm font-medium text-gray-200 p-2 rounded-md hover:bg-white/10 disabled:opacity-50 disabled:bg-white/10 disabled:font-bold disabled:cursor-not-allowed"
                               >
                                   {t(`backgrounds.${bg}`, bg)}
                               </button>
                           ))}
+                          {renderScenePresets('background')}
                       </div>
                   </div>
+                  {isScenePending && (
+                    <button
+                      onClick={() => onSceneChange(pendingScene)}
+                      disabled={isLoading || isPendingSceneGenerating}
+                      className="w-full mt-1 flex items-center justify-center gap-2 text-sm font-semibold text-gray-900 bg-white p-2 rounded-md hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isPendingSceneGenerating && <LoaderIcon className="w-3.5 h-3.5 animate-spin" />}
+                      {t('canvas.applyScene')}
+                    </button>
+                  )}
                   <hr className="border-white/10 my-1" />
+                  <button
+                    onClick={() => setIsMasking(true)}
+                    disabled={!canMask}
+                    className="w-full flex items-center gap-3 text-left text-sm font-medium text-gray-200 p-2 rounded-md hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed"
+                    title={canMask ? undefined : t('canvas.selectAreaHint')}
+                  >
+                    <BrushIcon className="w-4 h-4 text-white"/>
+                    <span>{t('canvas.selectArea')}</span>
+                  </button>
                   <button 
                     onClick={onOpenCropModal}
                     className="w-full flex items-center gap-3 text-left text-sm font-medium text-gray-200 p-2 rounded-md hover:bg-white/10"
@@ -230,6 +383,33 @@ const Canvas: React.FC<CanvasProps> = ({
                     <CropIcon className="w-4 h-4 text-white"/>
                     <span>{t('canvas.crop')}</span>
                   </button>
+                  <button
+                    onClick={() => onSkipCacheChange(!skipCache)}
+                    className="w-full flex items-center gap-3 text-left text-sm font-medium text-gray-200 p-2 rounded-md hover:bg-white/10"
+                    aria-pressed={skipCache}
+                    title={t('canvas.regenerateAnywayHint')}
+                  >
+                    <RefreshCwIcon className="w-4 h-4 text-white"/>
+                    <span className="flex-grow">{t('canvas.regenerateAnyway')}</span>
+                    <span className={`w-7 h-4 rounded-full p-0.5 transition-colors ${skipCache ? 'bg-white' : 'bg-white/20'}`}>
+                      <span className={`block w-3 h-3 rounded-full transition-transform ${skipCache ? 'translate-x-3 bg-gray-900' : 'bg-white'}`} />
+                    </span>
+                  </button>
+                  <div className="flex items-center gap-3 p-2 text-sm font-medium text-gray-200">
+                    <span className="flex-grow">{t('canvas.candidates')}</span>
+                    <div className="flex gap-1" role="group" aria-label={t('canvas.candidates')}>
+                      {CANDIDATE_COUNTS.map(count => (
+                        <button
+                          key={count}
+                          onClick={() => onCandidateCountChange(count)}
+                          className={`w-6 h-6 text-xs font-semibold rounded-md transition-colors ${count === candidateCount ? 'bg-white text-gray-900' : 'bg-white/10 hover:bg-white/20'}`}
+                          aria-pressed={count === candidateCount}
+                        >
+                          {count}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
                   <button 
                     onClick={onOpenLookbookTemplates}
                     className="w-full flex items-center gap-3 text-left text-sm font-medium text-gray-200 p-2 rounded-md hover:bg-white/10"
@@ -265,17 +445,47 @@ const Canvas: React.FC<CanvasProps> = ({
                         transition={{ duration: 0.2, ease: "easeOut" }}
                         className="absolute bottom-full mb-3 w-56 sm:w-64 bg-black/40 backdrop-blur-xl rounded-xl p-2 border border-white/20"
                     >
+                        <button
+                            onClick={isGeneratingAllPoses ? onStopGeneratingPoses : onGenerateAllPoses}
+                            disabled={!isGeneratingAllPoses && missingPoseCount === 0}
+                            className="w-full mb-2 text-sm font-semibold text-gray-900 bg-white p-2 rounded-md hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {isGeneratingAllPoses
+                                ? `${t('canvas.stopGeneratingPoses')} (${pendingPoseCount})`
+                                : t('canvas.generateAllPoses')}
+                        </button>
                         <div className="grid grid-cols-2 gap-2">
-                            {poseInstructions.map((pose, index) => (
-                                <button
-                                    key={pose}
-                                    onClick={() => onSelectPose(index)}
-                                    disabled={isLoading || index === currentPoseIndex}
-                                    className="w-full text-left text-sm font-medium text-gray-200 p-2 rounded-md hover:bg-white/10 disabled:opacity-50 disabled:bg-white/10 disabled:font-bold disabled:cursor-not-allowed"
-                                >
-                                    {t(`poses.${pose}`, pose)}
-                                </button>
+                            {poses.map((pose) => (
+                                <div key={pose.id} className="relative group">
+                                    <button
+                                        onClick={() => onSelectPose(pose.id)}
+                                        disabled={isLoading || pose.id === currentPoseId || poseStatuses[pose.id] === 'queued' || poseStatuses[pose.id] === 'running'}
+                                        title={pose.instruction}
+                                        className={`w-full flex items-center gap-1.5 text-left text-sm font-medium text-gray-200 p-2 rounded-md hover:bg-white/10 disabled:opacity-50 disabled:bg-white/10 disabled:font-bold disabled:cursor-not-allowed ${pose.name ? 'pr-6' : ''}`}
+                                    >
+                                        {renderPoseStatus(pose.id)}
+                                        <span className={pose.name ? 'truncate' : ''}>{getPoseLabel(pose, t)}</span>
+                                    </button>
+                                    {pose.name && (
+                                        <button
+                                            onClick={() => onDeletePose(pose.id)}
+                                            disabled={isLoading}
+                                            className="absolute top-1/2 -translate-y-1/2 right-1 p-1 rounded-full text-gray-400 hover:text-white hover:bg-white/10 opacity-0 group-hover:opacity-100 focus:opacity-100 disabled:hidden"
+                                            aria-label={`${t('poseLibrary.delete')} ${pose.name}`}
+                                        >
+                                            <XIcon className="w-3 h-3" />
+                                        </button>
+                                    )}
+                                </div>
                             ))}
+                            <button
+                                onClick={onAddPose}
+                                disabled={isLoading}
+                                className="w-full flex items-center gap-1.5 text-left text-sm font-medium text-gray-300 p-2 rounded-md hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                <PlusIcon className="w-3.5 h-3.5" />
+                                <span>{t('canvas.customPose')}</span>
+                            </button>
                         </div>
                     </motion.div>
                 )}
@@ -290,8 +500,8 @@ const Canvas: React.FC<CanvasProps> = ({
               >
                 <ChevronLeftIcon className="w-5 h-5 text-white" />
               </button>
-              <span className="text-sm font-semibold text-white w-32 sm:w-48 text-center truncate" title={poseInstructions[currentPoseIndex]}>
-                {t(`poses.${poseInstructions[currentPoseIndex]}`, poseInstructions[currentPoseIndex])}
+              <span className="text-sm font-semibold text-white w-32 sm:w-48 text-center truncate" title={currentPose?.instruction}>
+                {currentPose && getPoseLabel(currentPose, t)}
               </span>
               <button 
                 onClick={handleNextPose}
@@ -0,0 +1,188 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { COLOR_FINISHES, ColorFinish, GarmentColor } from '../types.ts';
+import { PipetteIcon, XIcon } from './icons.tsx';
+import { useLanguage } from '../contexts/LanguageContext.tsx';
+import { getColorLabel, normalizeHex, rgbToHex } from '../lib/colors.ts';
+import { cn } from '../lib/utils.ts';
+
+interface ColorPickerProps {
+  recentColors: string[];
+  onApply: (color: GarmentColor) => void;
+}
+
+const PRESET_COLORS = ['#ef4444', '#3b82f6', '#22c55e', '#a855f7', '#ec4899', '#f97316', '#f5f5f5', '#18181b'];
+
+const FINISH_LABEL_KEYS = {
+  matte: 'colorPicker.finishes.matte',
+  glossy: 'colorPicker.finishes.glossy',
+  metallic: 'colorPicker.finishes.metallic',
+  satin: 'colorPicker.finishes.satin',
+  heathered: 'colorPicker.finishes.heathered',
+} as const satisfies Record<ColorFinish, string>;
+
+const ColorPicker: React.FC<ColorPickerProps> = ({ recentColors, onApply }) => {
+  const { t } = useLanguage();
+  const [hex, setHex] = useState(recentColors[0] ?? PRESET_COLORS[0]);
+  const [hexInput, setHexInput] = useState(hex);
+  const [finish, setFinish] = useState<ColorFinish | undefined>();
+  const [samplePhotoUrl, setSamplePhotoUrl] = useState<string | null>(null);
+  const sampleCanvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    setHexInput(hex);
+  }, [hex]);
+
+  useEffect(() => {
+    if (!samplePhotoUrl) return;
+    return () => URL.revokeObjectURL(samplePhotoUrl);
+  }, [samplePhotoUrl]);
+
+  const handleHexInputChange = (value: string) => {
+    setHexInput(value);
+    const normalized = normalizeHex(value);
+    if (normalized) setHex(normalized);
+  };
+
+  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file?.type.startsWith('image/')) setSamplePhotoUrl(URL.createObjectURL(file));
+    e.target.value = '';
+  };
+
+  // The photo is drawn once at full size so each click only reads one pixel.
+  const handlePhotoLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const image = e.currentTarget;
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    canvas.getContext('2d', { willReadFrequently: true })?.drawImage(image, 0, 0);
+    sampleCanvasRef.current = canvas;
+  };
+
+  const handlePhotoClick = (e: React.MouseEvent<HTMLImageElement>) => {
+    const canvas = sampleCanvasRef.current;
+    const ctx = canvas?.getContext('2d', { willReadFrequently: true });
+    if (!canvas || !ctx) return;
+    // The photo is letterboxed by object-contain: map the click into the image, and ignore clicks on the bars.
+    const rect = e.currentTarget.getBoundingClientRect();
+    const scale = Math.min(rect.width / canvas.width, rect.height / canvas.height);
+    const offsetX = (rect.width - canvas.width * scale) / 2;
+    const offsetY = (rect.height - canvas.height * scale) / 2;
+    const x = Math.floor((e.clientX - rect.left - offsetX) / scale);
+    const y = Math.floor((e.clientY - rect.top - offsetY) / scale);
+    if (x < 0 || y < 0 || x >= canvas.width || y >= canvas.height) return;
+    const [r, g, b] = ctx.getImageData(x, y, 1, 1).data;
+    setHex(rgbToHex(r, g, b));
+  };
+
+  const renderSwatch = (color: string) => (
+    <button
+      key={color}
+      onClick={() => setHex(color)}
+      className={cn(
+        'w-6 h-6 rounded-full border transition-transform active:scale-90 hover:scale-110',
+        color === hex ? 'border-white ring-2 ring-white/60' : 'border-gray-300/50'
+      )}
+      style={{ backgroundColor: color }}
+      aria-label={`${t('outfitStack.changeColorTo')} ${getColorLabel(color, t)}`}
+      title={getColorLabel(color, t)}
+    />
+  );
+
+  return (
+    <div className="w-64 flex flex-col gap-3 text-sm text-gray-200">
+      <div className="flex items-center gap-2">
+        <input
+          type="color"
+          value={hex}
+          onChange={(e) => setHex(e.target.value)}
+          className="w-10 h-10 flex-shrink-0 rounded-md bg-transparent border border-white/20 cursor-pointer"
+          aria-label={t('colorPicker.custom')}
+        />
+        <div className="min-w-0 flex-grow">
+          <p className="font-semibold text-white capitalize truncate">{getColorLabel(hex, t)}</p>
+          <input
+            type="text"
+            value={hexInput}
+            onChange={(e) => handleHexInputChange(e.target.value)}
+            className="w-full bg-white/10 text-white text-xs font-mono rounded px-2 py-1 mt-1 border-0 focus:ring-2 focus:ring-white/50 focus:outline-none"
+            aria-label={t('colorPicker.hex')}
+            spellCheck={false}
+          />
+        </div>
+      </div>
+
+      <div>
+        <p className="text-xs text-gray-400 font-semibold uppercase mb-1">{t('colorPicker.presets')}</p>
+        <div className="flex flex-wrap gap-2">{PRESET_COLORS.map(renderSwatch)}</div>
+      </div>
+
+      {recentColors.length > 0 && (
+        <div>
+          <p className="text-xs text-gray-400 font-semibold uppercase mb-1">{t('colorPicker.recent')}</p>
+          <div className="flex flex-wrap gap-2">{recentColors.map(renderSwatch)}</div>
+        </div>
+      )}
+
+      <div>
+        {samplePhotoUrl ? (
+          <div className="relative">
+            <img
+              src={samplePhotoUrl}
+              alt={t('colorPicker.samplePhoto')}
+              onLoad={handlePhotoLoad}
+              onClick={handlePhotoClick}
+              className="w-full max-h-40 object-contain rounded-md cursor-crosshair"
+            />
+            <button
+              onClick={() => setSamplePhotoUrl(null)}
+              className="absolute top-1 right-1 p-1 rounded-full bg-black/50 hover:bg-black/70"
+              aria-label={t('colorPicker.removePhoto')}
+            >
+              <XIcon className="w-3.5 h-3.5 text-white" />
+            </button>
+            <p className="text-xs text-gray-400 mt-1">{t('colorPicker.eyedropperHint')}</p>
+          </div>
+        ) : (
+          <label className="w-full flex items-center justify-center gap-2 p-2 rounded-md border border-dashed border-white/20 text-gray-300 hover:bg-white/5 cursor-pointer">
+            <PipetteIcon className="w-4 h-4" />
+            <span>{t('colorPicker.eyedropper')}</span>
+            <input type="file" className="hidden" accept="image/png, image/jpeg, image/webp, image/avif, image/heic, image/heif" onChange={handlePhotoChange} />
+          </label>
+        )}
+      </div>
+
+      <div>
+        <p className="text-xs text-gray-400 font-semibold uppercase mb-1">{t('colorPicker.finish')}</p>
+        <div className="flex flex-wrap gap-1">
+          {COLOR_FINISHES.map(option => (
+            <button
+              key={option}
+              onClick={() => setFinish(prev => prev === option ? undefined : option)}
+              className={cn(
+                'px-2 py-1 text-xs font-medium rounded-md transition-colors',
+                option === finish ? 'bg-white text-gray-900' : 'bg-white/10 hover:bg-white/20'
+              )}
+              aria-pressed={option === finish}
+            >
+              {t(FINISH_LABEL_KEYS[option])}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <button
+        onClick={() => onApply({ hex, finish })}
+        className="w-full text-sm font-semibold text-gray-900 bg-white p-2 rounded-md hover:bg-gray-200 active:scale-95 transition-all"
+      >
+        {t('colorPicker.apply')}
+      </button>
+    </div>
+  );
+};
+
+export default ColorPicker;
@@ -2,3 +2,210 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React, { useEffect, useRef, useState } from 'react';
+import { MaskTool } from '../types.ts';
+
+interface EditorCanvasProps {
+  imageUrl: string;
+  tool: MaskTool;
+  /** Brush and eraser diameter in screen pixels. */
+  brushSize: number;
+  /** The current mask (see `EditMask.dataUrl`), or null for none. */
+  mask: string | null;
+  onMaskChange: (mask: string | null) => void;
+}
+
+type Point = { x: number; y: number };
+
+const MASK_TINT = 'rgb(236, 72, 153)';
+
+const loadImage = (url: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('Could not load the mask image.'));
+  image.src = url;
+});
+
+/** Turns the tinted, transparent drawing into the white-on-black PNG the services expect. */
+const exportMask = (canvas: HTMLCanvasElement): string => {
+  const output = document.createElement('canvas');
+  output.width = canvas.width;
+  output.height = canvas.height;
+  const ctx = output.getContext('2d')!;
+  ctx.drawImage(canvas, 0, 0);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, output.width, output.height);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, output.width, output.height);
+  return output.toDataURL('image/png');
+};
+
+/** Draws a white-on-black mask back onto the canvas as the tinted overlay. */
+const importMask = (canvas: HTMLCanvasElement, mask: HTMLImageElement) => {
+  const ctx = canvas.getContext('2d')!;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(mask, 0, 0, canvas.width, canvas.height);
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    pixels.data[i + 3] = pixels.data[i] > 127 ? 255 : 0;
+  }
+  ctx.putImageData(pixels, 0, 0);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = MASK_TINT;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'source-over';
+};
+
+const hasPaint = (canvas: HTMLCanvasElement): boolean => {
+  const { data } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return true;
+  }
+  return false;
+};
+
+/**
+ * Shows an image with a mask painted over it. The mask is drawn at the image's full resolution
+ * and both are letterboxed the same way, so strokes line up with the image at any size.
+ */
+const EditorCanvas: React.FC<EditorCanvasProps> = ({ imageUrl, tool, brushSize, mask, onMaskChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [lassoPoints, setLassoPoints] = useState<Point[]>([]);
+  const lastPointRef = useRef<Point | null>(null);
+  // The mask this canvas last reported, so it isn't redrawn from its own output.
+  const emittedMaskRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !size || mask === emittedMaskRef.current) return;
+    emittedMaskRef.current = mask;
+    canvas.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+    if (!mask) return;
+    let cancelled = false;
+    loadImage(mask)
+      .then(image => { if (!cancelled) importMask(canvas, image); })
+      .catch(err => console.error(err));
+    return () => { cancelled = true; };
+  }, [mask, size]);
+
+  /** Maps a pointer position to image pixels, allowing for the letterboxing of `object-contain`. */
+  const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>): Point & { scale: number } => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const scale = Math.min(rect.width / canvas.width, rect.height / canvas.height);
+    const offsetX = (rect.width - canvas.width * scale) / 2;
+    const offsetY = (rect.height - canvas.height * scale) / 2;
+    return {
+      x: (e.clientX - rect.left - offsetX) / scale,
+      y: (e.clientY - rect.top - offsetY) / scale,
+      scale,
+    };
+  };
+
+  const drawStroke = (from: Point, to: Point, scale: number) => {
+    const ctx = canvasRef.current!.getContext('2d')!;
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_TINT;
+    ctx.lineWidth = brushSize / scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    ctx.globalCompositeOperation = 'source-over';
+  };
+
+  const fillLasso = (points: Point[]) => {
+    if (points.length < 3) return;
+    const ctx = canvasRef.current!.getContext('2d')!;
+    ctx.fillStyle = MASK_TINT;
+    ctx.beginPath();
+    points.forEach((point, index) => index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y));
+    ctx.closePath();
+    ctx.fill();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { scale, ...point } = toImagePoint(e);
+    lastPointRef.current = point;
+    if (tool === 'lasso') {
+      setLassoPoints([point]);
+    } else {
+      drawStroke(point, point, scale);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPointRef.current) return;
+    const { scale, ...point } = toImagePoint(e);
+    if (tool === 'lasso') {
+      setLassoPoints(prev => [...prev, point]);
+    } else {
+      drawStroke(lastPointRef.current, point, scale);
+    }
+    lastPointRef.current = point;
+  };
+
+  const handlePointerUp = () => {
+    const canvas = canvasRef.current;
+    if (!lastPointRef.current || !canvas) return;
+    lastPointRef.current = null;
+    if (tool === 'lasso') {
+      fillLasso(lassoPoints);
+      setLassoPoints([]);
+    }
+    const nextMask = hasPaint(canvas) ? exportMask(canvas) : null;
+    emittedMaskRef.current = nextMask;
+    onMaskChange(nextMask);
+  };
+
+  return (
+    <div className="relative w-full h-full">
+      <img
+        src={imageUrl}
+        alt="Virtual try-on model"
+        draggable={false}
+        onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+        className="absolute inset-0 w-full h-full object-contain rounded-lg select-none"
+      />
+      {size && (
+        <>
+          <canvas
+            ref={canvasRef}
+            width={size.width}
+            height={size.height}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className="absolute inset-0 w-full h-full object-contain opacity-50 cursor-crosshair touch-none"
+          />
+          {lassoPoints.length > 1 && (
+            <svg
+              viewBox={`0 0 ${size.width} ${size.height}`}
+              preserveAspectRatio="xMidYMid meet"
+              className="absolute inset-0 w-full h-full pointer-events-none"
+            >
+              <polygon
+                points={lassoPoints.map(point => `${point.x},${point.y}`).join(' ')}
+                fill={MASK_TINT}
+                fillOpacity={0.25}
+                stroke="white"
+                strokeWidth={2}
+                strokeDasharray="6 4"
+                vectorEffect="non-scaling-stroke"
+              />
+            </svg>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default EditorCanvas;
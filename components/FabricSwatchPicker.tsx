@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { UploadCloudIcon, XIcon } from './icons.tsx';
+import { useLanguage } from '../contexts/LanguageContext.tsx';
+
+interface FabricSwatchPickerProps {
+  disabled: boolean;
+  onApply: (swatch: File, note: string) => void;
+}
+
+const FabricSwatchPicker: React.FC<FabricSwatchPickerProps> = ({ disabled, onApply }) => {
+  const { t } = useLanguage();
+  const [swatch, setSwatch] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    if (!swatch) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(swatch);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [swatch]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file?.type.startsWith('image/')) setSwatch(file);
+    e.target.value = '';
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (swatch) onApply(swatch, note.trim());
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="w-60 flex flex-col gap-2 text-sm text-gray-200">
+      <p className="text-xs text-gray-400 font-semibold uppercase">{t('fabricPicker.title')}</p>
+      {previewUrl ? (
+        <div className="relative">
+          <img src={previewUrl} alt={t('fabricPicker.swatch')} className="w-full h-28 object-cover rounded-md" />
+          <button
+            type="button"
+            onClick={() => setSwatch(null)}
+            className="absolute top-1 right-1 p-1 rounded-full bg-black/50 hover:bg-black/70"
+            aria-label={t('fabricPicker.remove')}
+          >
+            <XIcon className="w-3.5 h-3.5 text-white" />
+          </button>
+        </div>
+      ) : (
+        <label className="h-28 flex flex-col items-center justify-center gap-1 rounded-md border-2 border-dashed border-white/30 text-gray-300 hover:border-white/50 hover:text-white cursor-pointer transition-colors">
+          <UploadCloudIcon className="w-5 h-5" />
+          <span className="text-xs text-center px-2">{t('fabricPicker.upload')}</span>
+          <input type="file" className="hidden" accept="image/png, image/jpeg, image/webp, image/avif, image/heic, image/heif" onChange={handleFileChange} />
+        </label>
+      )}
+      <input
+        type="text"
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder={t('fabricPicker.notePlaceholder')}
+        className="bg-white/10 text-white placeholder-gray-400 text-sm rounded-md px-2 py-1 border-0 focus:ring-2 focus:ring-white/50 focus:outline-none"
+      />
+      <button
+        type="submit"
+        disabled={!swatch || disabled}
+        className="w-full text-sm font-semibold text-gray-900 bg-white p-2 rounded-md hover:bg-gray-200 active:scale-95 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {t('fabricPicker.apply')}
+      </button>
+    </form>
+  );
+};
+
+export default FabricSwatchPicker;
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { HistoryIcon } from './icons.tsx';
+import { useLanguage } from '../contexts/LanguageContext.tsx';
+import { HistoryNode, HistoryTree, getChildren, getSnapshotImage } from '../lib/historyTree.ts';
+import { cn } from '../lib/utils.ts';
+
+interface HistoryPanelProps {
+  history: HistoryTree;
+  onSelect: (id: string) => void;
+  disabled: boolean;
+}
+
+interface HistoryBranchProps extends HistoryPanelProps {
+  startId: string;
+}
+
+/**
+ * A node and its oldest descendants as one column of thumbnails. Every later child starts
+ * an indented branch under the node it grew from.
+ */
+const HistoryBranch: React.FC<HistoryBranchProps> = ({ history, startId, onSelect, disabled }) => {
+  const { t } = useLanguage();
+  const chain: HistoryNode[] = [];
+  for (let node = history.nodes[startId]; node; node = getChildren(history, node.id)[0]) {
+    chain.push(node);
+  }
+
+  return (
+    <ol className="flex flex-col gap-1.5">
+      {chain.map(node => {
+        const image = getSnapshotImage(node.snapshot);
+        const isCurrent = node.id === history.currentId;
+        const time = new Date(node.createdAt).toLocaleTimeString();
+        return (
+          <li key={node.id}>
+            <button
+              onClick={() => onSelect(node.id)}
+              disabled={disabled || isCurrent}
+              className={cn(
+                'flex items-center gap-2 w-full p-1 rounded-lg text-left transition-colors disabled:cursor-default',
+                isCurrent ? 'bg-white/20' : 'hover:bg-white/10'
+              )}
+              aria-current={isCurrent}
+              aria-label={isCurrent ? t('history.current') : `${t('history.goTo')} (${time})`}
+            >
+              {image && (
+                <img
+                  src={image}
+                  alt=""
+                  className={cn('flex-shrink-0 w-10 h-14 object-cover rounded-md border', isCurrent ? 'border-white' : 'border-white/20')}
+                />
+              )}
+              <span className="min-w-0 text-xs text-gray-300">
+                <span className="block text-gray-100 font-medium truncate">
+                  {node.parentId ? `${t('history.garmentCount')} ${node.snapshot.currentOutfitIndex}` : t('history.start')}
+                </span>
+                {time}
+              </span>
+            </button>
+            {getChildren(history, node.id).slice(1).map(branch => (
+              <div key={branch.id} className="mt-1.5 ml-4 pl-2 border-l-2 border-white/20">
+                <HistoryBranch history={history} startId={branch.id} onSelect={onSelect} disabled={disabled} />
+              </div>
+            ))}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+/** Every version of the look made this session; picking one goes back to it without losing the others. */
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onSelect, disabled }) => {
+  const { t } = useLanguage();
+  const [isOpen, setIsOpen] = useState(false);
+  const versionCount = Object.keys(history.nodes).length;
+
+  if (versionCount < 2) return null;
+
+  return (
+    <div className="absolute top-16 left-4 z-40 flex flex-col items-start">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center gap-2 bg-black/20 backdrop-blur-md border border-white/20 rounded-full px-3 py-1.5 text-sm font-semibold text-white hover:bg-black/30 transition-colors"
+        aria-expanded={isOpen}
+        aria-label={t('history.toggle')}
+      >
+        <HistoryIcon className="w-4 h-4" />
+        <span>{t('history.title')}</span>
+        <span className="flex items-center justify-center min-w-5 h-5 px-1.5 text-xs bg-white/20 rounded-full">{versionCount}</span>
+      </button>
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            className="mt-2 w-64 max-h-[60vh] overflow-y-auto bg-gray-800/80 backdrop-blur-xl border border-white/20 rounded-xl shadow-2xl p-2"
+          >
+            <p className="px-1 pb-2 text-xs text-gray-400">{t('history.description')}</p>
+            <HistoryBranch history={history} startId={history.rootId} onSelect={onSelect} disabled={disabled} />
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default HistoryPanel;
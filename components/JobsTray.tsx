@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Job, JobStatus, isJobPending } from '../services/jobQueue.ts';
+import { AlertCircleIcon, CheckCircleIcon, ClockIcon, LoaderIcon, XIcon } from './icons.tsx';
+import { useLanguage } from '../contexts/LanguageContext.tsx';
+import { getFriendlyErrorMessage } from '../lib/utils.ts';
+
+interface JobsTrayProps {
+  jobs: readonly Job<unknown>[];
+  onCancel: (id: string) => void;
+  onDismiss: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_LABEL_KEYS = {
+  queued: 'jobs.queued',
+  running: 'jobs.running',
+  done: 'jobs.done',
+  failed: 'jobs.failed',
+} as const satisfies Record<JobStatus, string>;
+
+const JobStatusIcon: React.FC<{ status: JobStatus }> = ({ status }) => {
+  switch (status) {
+    case 'queued':
+      return <ClockIcon className="flex-shrink-0 w-4 h-4 text-gray-400" />;
+    case 'running':
+      return <LoaderIcon className="flex-shrink-0 w-4 h-4 text-white animate-spin" />;
+    case 'done':
+      return <CheckCircleIcon className="flex-shrink-0 w-4 h-4 text-green-400" />;
+    case 'failed':
+      return <AlertCircleIcon className="flex-shrink-0 w-4 h-4 text-red-400" />;
+  }
+};
+
+const JobsTray: React.FC<JobsTrayProps> = ({ jobs, onCancel, onDismiss, onClearFinished }) => {
+  const { t } = useLanguage();
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (jobs.length === 0) return null;
+
+  const pendingCount = jobs.filter(isJobPending).length;
+  const isRunning = jobs.some(job => job.status === 'running');
+  const hasFinished = pendingCount < jobs.length;
+
+  return (
+    <div className="absolute top-16 right-4 z-40 flex flex-col items-end">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center gap-2 bg-black/20 backdrop-blur-md border border-white/20 rounded-full px-3 py-1.5 text-sm font-semibold text-white hover:bg-black/30 transition-colors"
+        aria-expanded={isOpen}
+        aria-label={t('jobs.toggle')}
+      >
+        {isRunning ? <LoaderIcon className="w-4 h-4 animate-spin" /> : <ClockIcon className="w-4 h-4" />}
+        <span>{t('jobs.title')}</span>
+        {pendingCount > 0 && (
+          <span className="flex items-center justify-center min-w-5 h-5 px-1.5 text-xs bg-white text-gray-900 rounded-full">{pendingCount}</span>
+        )}
+      </button>
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            className="mt-2 w-72 max-h-80 overflow-y-auto bg-gray-800/80 backdrop-blur-xl border border-white/20 rounded-xl shadow-2xl p-2"
+          >
+            <ul className="flex flex-col gap-1">
+              {[...jobs].reverse().map(job => (
+                <li key={job.id} className="flex items-start gap-2 p-2 rounded-lg hover:bg-white/5">
+                  <JobStatusIcon status={job.status} />
+                  <div className="flex-grow min-w-0">
+                    <p className="text-sm text-gray-100 truncate" title={job.label}>{job.label}</p>
+                    <p className={`text-xs ${job.status === 'failed' ? 'text-red-300' : 'text-gray-400'}`}>
+                      {job.status === 'failed' ? getFriendlyErrorMessage(job.error, job.label) : t(STATUS_LABEL_KEYS[job.status])}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => isJobPending(job) ? onCancel(job.id) : onDismiss(job.id)}
+                    className="flex-shrink-0 p-1 rounded-full text-gray-400 hover:text-white hover:bg-white/10"
+                    aria-label={isJobPending(job) ? t('jobs.cancel') : t('jobs.dismiss')}
+                  >
+                    <XIcon className="w-3.5 h-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+            {hasFinished && (
+              <button
+                onClick={onClearFinished}
+                className="w-full mt-2 text-xs font-semibold text-gray-300 hover:text-white hover:bg-white/10 py-1.5 rounded-md"
+              >
+                {t('jobs.clearFinished')}
+              </button>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default JobsTray;
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { useLanguage } from '../contexts/LanguageContext.tsx';
+import { MODEL_BACKGROUNDS, MODEL_FRAMINGS, MODEL_POSES, ModelBackground, ModelCreationOptions, ModelFraming, ModelPose } from '../types.ts';
+
+const BACKGROUND_LABEL_KEYS = {
+  original: 'modelOptions.backgrounds.original',
+  studio: 'modelOptions.backgrounds.studio',
+  scene: 'modelOptions.backgrounds.scene',
+} as const satisfies Record<ModelBackground, string>;
+
+const POSE_LABEL_KEYS = {
+  relaxed: 'modelOptions.poses.relaxed',
+  handsOnHips: 'modelOptions.poses.handsOnHips',
+  threeQuarterTurn: 'modelOptions.poses.threeQuarterTurn',
+  walking: 'modelOptions.poses.walking',
+} as const satisfies Record<ModelPose, string>;
+
+const FRAMING_LABEL_KEYS = {
+  fullBody: 'modelOptions.framings.fullBody',
+  threeQuarter: 'modelOptions.framings.threeQuarter',
+} as const satisfies Record<ModelFraming, string>;
+
+interface ModelOptionsPanelProps {
+  options: ModelCreationOptions;
+  onChange: (options: ModelCreationOptions) => void;
+  disabled?: boolean;
+}
+
+const chipClassName = (isSelected: boolean) =>
+  `px-3 py-1 text-sm rounded-full border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${isSelected ? 'bg-white text-gray-900 border-white' : 'border-white/20 text-white hover:bg-white/10'}`;
+
+const ModelOptionsPanel: React.FC<ModelOptionsPanelProps> = ({ options, onChange, disabled = false }) => {
+  const { t } = useLanguage();
+
+  return (
+    <div className="w-full flex flex-col gap-3 bg-white/5 backdrop-blur-md border border-white/20 rounded-lg p-3 text-left">
+      <p className="font-semibold text-white">{t('modelOptions.title')}</p>
+      <div>
+        <p className="text-xs text-gray-400 mb-1.5">{t('modelOptions.background')}</p>
+        <div className="flex flex-wrap gap-2">
+          {MODEL_BACKGROUNDS.map(background => (
+            <button
+              key={background}
+              onClick={() => onChange({ ...options, background })}
+              disabled={disabled}
+              className={chipClassName(options.background === background)}
+            >
+              {t(BACKGROUND_LABEL_KEYS[background])}
+            </button>
+          ))}
+        </div>
+        {options.background === 'scene' && (
+          <input
+            type="text"
+            value={options.scenePrompt ?? ''}
+            onChange={(e) => onChange({ ...options, scenePrompt: e.target.value })}
+            disabled={disabled}
+            placeholder={t('modelOptions.scenePlaceholder')}
+            className="mt-2 w-full bg-black/20 border border-white/20 rounded-md px-3 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-white/50 disabled:opacity-50"
+          />
+        )}
+      </div>
+      <div>
+        <p className="text-xs text-gray-400 mb-1.5">{t('modelOptions.pose')}</p>
+        <div className="flex flex-wrap gap-2">
+          {MODEL_POSES.map(pose => (
+            <button
+              key={pose}
+              onClick={() => onChange({ ...options, pose })}
+              disabled={disabled}
+              className={chipClassName(options.pose === pose)}
+            >
+              {t(POSE_LABEL_KEYS[pose])}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div>
+        <p className="text-xs text-gray-400 mb-1.5">{t('modelOptions.framing')}</p>
+        <div className="flex flex-wrap gap-2">
+          {MODEL_FRAMINGS.map(framing => (
+            <button
+              key={framing}
+              onClick={() => onChange({ ...options, framing })}
+              disabled={disabled}
+              className={chipClassName(options.framing === framing)}
+            >
+              {t(FRAMING_LABEL_KEYS[framing])}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModelOptionsPanel;
@@ -4,25 +4,41 @@
 */
 
 import React, { useState } from 'react';
-import { OutfitLayer } from '../types.ts';
-import { Trash2Icon, PaletteIcon, WandIcon } from './icons.tsx';
+import { GarmentColor, OutfitLayer, WardrobeItem } from '../types.ts';
+import { Trash2Icon, PaletteIcon, WandIcon, SwapIcon, UploadCloudIcon, GripVerticalIcon, LoaderIcon, BrushIcon, SwatchBookIcon } from './icons.tsx';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useLanguage } from '../contexts/LanguageContext.tsx';
+import { urlToFile } from '../lib/utils.ts';
+import { storeImage } from '../services/imageStore.ts';
+import ColorPicker from './ColorPicker.tsx';
+import FabricSwatchPicker from './FabricSwatchPicker.tsx';
 
 
 interface OutfitStackProps {
   outfitHistory: OutfitLayer[];
-  onRevertToLayer: (index: number) => void;
-  onGarmentColorChangeAtIndex: (index: number, color: string) => void;
+  onRemoveLayer: (index: number) => void;
+  onSwapLayer: (index: number, garmentFile: File, garmentInfo: WardrobeItem) => void;
+  onReorderLayers: (fromIndex: number, toIndex: number) => void;
+  onGarmentColorChangeAtIndex: (index: number, color: GarmentColor) => void;
+  onGarmentFabricChangeAtIndex: (index: number, swatch: File, note: string) => void;
   onMagicWandEditAtIndex: (index: number, instruction: string) => void;
   isLoading: boolean;
+  /** Layers with a pose or scene still generating in the background. */
+  pendingLayerIndexes: number[];
+  /** The layer whose magic wand and color edits are kept inside the area selected on the canvas. */
+  maskedLayerIndex: number | null;
+  /** Hex colors most recently applied, newest first. */
+  recentColors: string[];
+  wardrobe: WardrobeItem[];
 }
 
-const COLORS = ["#EF4444", "#3B82F6", "#22C55E", "#A855F7", "#EC4899", "#F97316", "#F5F5F5", "#18181B"];
-
-const OutfitStack: React.FC<OutfitStackProps> = ({ outfitHistory, onRevertToLayer, onGarmentColorChangeAtIndex, onMagicWandEditAtIndex, isLoading }) => {
+const OutfitStack: React.FC<OutfitStackProps> = ({ outfitHistory, onRemoveLayer, onSwapLayer, onReorderLayers, onGarmentColorChangeAtIndex, onGarmentFabricChangeAtIndex, onMagicWandEditAtIndex, isLoading, pendingLayerIndexes, maskedLayerIndex, recentColors, wardrobe }) => {
   const [showColorPickerFor, setShowColorPickerFor] = useState<number | null>(null);
   const [showMagicWandFor, setShowMagicWandFor] = useState<number | null>(null);
+  const [showFabricFor, setShowFabricFor] = useState<number | null>(null);
+  const [showSwapFor, setShowSwapFor] = useState<number | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
   const [magicWandInput, setMagicWandInput] = useState('');
   const { t } = useLanguage();
   
@@ -35,6 +51,59 @@ const OutfitStack: React.FC<OutfitStackProps> = ({ outfitHistory, onRevertToLaye
       }
   };
 
+  const handleSwapWithItem = async (index: number, item: WardrobeItem) => {
+      setShowSwapFor(null);
+      try {
+          const file = await urlToFile(item.url, item.name);
+          onSwapLayer(index, file, item);
+      } catch (err) {
+          console.error(`Failed to load wardrobe item for swap: ${item.url}`, err);
+      }
+  };
+
+  const handleSwapUpload = async (e: React.ChangeEvent<HTMLInputElement>, index: number) => {
+      const file = e.target.files?.[0];
+      const replaced = outfitHistory[index].garment;
+      if (!file || !file.type.startsWith('image/') || !replaced) return;
+      setShowSwapFor(null);
+      onSwapLayer(index, file, {
+          id: `custom-${Date.now()}`,
+          name: file.name,
+          url: await storeImage(file),
+          category: replaced.category,
+      });
+  };
+
+  const handleDragStart = (e: React.DragEvent<HTMLElement>, index: number) => {
+      setDragIndex(index);
+      e.dataTransfer.effectAllowed = 'move';
+      e.dataTransfer.setData('text/plain', String(index));
+      // Drag the whole row, not just the handle.
+      const row = e.currentTarget.closest('[data-layer-row]');
+      if (row) e.dataTransfer.setDragImage(row, 16, 16);
+  };
+
+  const handleDragEnd = () => {
+      setDragIndex(null);
+      setDropIndex(null);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLElement>, index: number) => {
+      // The base model always stays at the bottom of the stack.
+      if (dragIndex === null || index === 0) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      setDropIndex(index);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLElement>, index: number) => {
+      e.preventDefault();
+      if (dragIndex !== null && index > 0 && dragIndex !== index) {
+          onReorderLayers(dragIndex, index);
+      }
+      handleDragEnd();
+  };
+
   return (
     <div className="flex flex-col">
       <h2 className="text-xl font-serif tracking-wider text-white border-b border-white/20 pb-2 mb-3">{t('outfitStack.title')}</h2>
@@ -44,11 +113,29 @@ const OutfitStack: React.FC<OutfitStackProps> = ({ outfitHistory, onRevertToLaye
            const garmentId = layer.garment?.id || 'base';
 
           return (
-            <div key={`${garmentId}-${index}`} className="relative">
+            <div
+              key={`${garmentId}-${index}`}
+              className="relative"
+              onDragOver={(e) => handleDragOver(e, index)}
+              onDrop={(e) => handleDrop(e, index)}
+            >
               <div
-                className="flex items-center justify-between bg-white/10 backdrop-blur-md p-2 rounded-lg animate-fade-in border border-white/20"
+                data-layer-row
+                className={`flex items-center justify-between bg-white/10 backdrop-blur-md p-2 rounded-lg animate-fade-in border transition-colors ${dropIndex === index && dragIndex !== index ? 'border-white/70' : 'border-white/20'} ${dragIndex === index ? 'opacity-50' : ''}`}
               >
                 <div className="flex items-center overflow-hidden">
+                    {canEdit && outfitHistory.length > 2 && (
+                        <span
+                          draggable={!isLoading}
+                          onDragStart={(e) => handleDragStart(e, index)}
+                          onDragEnd={handleDragEnd}
+                          className={`flex-shrink-0 -ml-1 mr-1 text-gray-400 ${isLoading ? 'opacity-50 cursor-not-allowed' : 'cursor-grab hover:text-white active:cursor-grabbing'}`}
+                          title={t('outfitStack.dragToReorder')}
+                          aria-label={t('outfitStack.dragToReorder')}
+                        >
+                          <GripVerticalIcon className="w-4 h-4" />
+                        </span>
+                    )}
                     <span className="flex-shrink-0 flex items-center justify-center w-6 h-6 mr-3 text-xs font-bold text-gray-200 bg-white/10 rounded-full">
                       {index + 1}
                     </span>
@@ -58,6 +145,9 @@ const OutfitStack: React.FC<OutfitStackProps> = ({ outfitHistory, onRevertToLaye
                     <span className="font-semibold text-gray-100 truncate" title={layer.garment?.name}>
                       {layer.garment ? layer.garment.name : t('outfitStack.baseModel')}
                     </span>
+                    {pendingLayerIndexes.includes(index) && (
+                      <LoaderIcon className="flex-shrink-0 w-4 h-4 ml-2 text-gray-400 animate-spin" aria-label={t('outfitStack.generating')} />
+                    )}
                 </div>
                 {canEdit && (
                   <div className="flex-shrink-0 flex items-center">
@@ -66,6 +156,8 @@ const OutfitStack: React.FC<OutfitStackProps> = ({ outfitHistory, onRevertToLaye
                         onClick={() => {
                           setShowMagicWandFor(showMagicWandFor === index ? null : index);
                           setShowColorPickerFor(null);
+                          setShowFabricFor(null);
+                          setShowSwapFor(null);
                         }}
                         className="text-gray-300 hover:text-white transition-colors p-2 rounded-md hover:bg-white/10"
                         aria-label={t('magicWand.label')}
@@ -81,6 +173,7 @@ const OutfitStack: React.FC<OutfitStackProps> = ({ outfitHistory, onRevertToLaye
                                 exit={{ opacity: 0, y: 10, scale: 0.95 }}
                                 className="absolute z-10 top-full right-0 mt-2 p-2 bg-black/50 backdrop-blur-xl border border-white/20 rounded-lg shadow-lg flex items-center gap-2 w-max"
                             >
+                                {maskedLayerIndex === index && <BrushIcon className="flex-shrink-0 w-4 h-4 text-pink-400" aria-label={t('outfitStack.maskApplies')} />}
                                 <input
                                     type="text"
                                     value={magicWandInput}
@@ -99,6 +192,8 @@ const OutfitStack: React.FC<OutfitStackProps> = ({ outfitHistory, onRevertToLaye
                         onClick={() => {
                           setShowColorPickerFor(showColorPickerFor === index ? null : index);
                           setShowMagicWandFor(null);
+                          setShowFabricFor(null);
+                          setShowSwapFor(null);
                         }}
                         className="text-gray-300 hover:text-white transition-colors p-2 rounded-md hover:bg-white/10"
                         aria-label={`${t('outfitStack.changeColor')} ${layer.garment?.name}`}
@@ -111,27 +206,118 @@ const OutfitStack: React.FC<OutfitStackProps> = ({ outfitHistory, onRevertToLaye
                             initial={{ opacity: 0, y: 10, scale: 0.95 }}
                             animate={{ opacity: 1, y: 0, scale: 1 }}
                             exit={{ opacity: 0, y: 10, scale: 0.95 }}
-                            className="absolute z-10 top-full right-0 mt-2 p-2 bg-black/50 backdrop-blur-xl border border-white/20 rounded-lg shadow-lg flex gap-2"
+                            className="absolute z-10 top-full right-0 mt-2 p-3 bg-black/50 backdrop-blur-xl border border-white/20 rounded-lg shadow-lg"
+                          >
+                            {maskedLayerIndex === index && (
+                              <p className="flex items-center gap-1.5 mb-2 text-xs text-pink-300">
+                                <BrushIcon className="flex-shrink-0 w-4 h-4 text-pink-400" />
+                                {t('outfitStack.maskApplies')}
+                              </p>
+                            )}
+                            <ColorPicker
+                              recentColors={recentColors}
+                              onApply={(color) => {
+                                onGarmentColorChangeAtIndex(index, color);
+                                setShowColorPickerFor(null);
+                              }}
+                            />
+                          </motion.div>
+                        )}
+                      </AnimatePresence>
+                    </div>
+                    <div className="relative">
+                      <button
+                        onClick={() => {
+                          setShowFabricFor(showFabricFor === index ? null : index);
+                          setShowColorPickerFor(null);
+                          setShowMagicWandFor(null);
+                          setShowSwapFor(null);
+                        }}
+                        className="text-gray-300 hover:text-white transition-colors p-2 rounded-md hover:bg-white/10"
+                        aria-label={`${t('outfitStack.changeFabric')} ${layer.garment?.name}`}
+                      >
+                        <SwatchBookIcon className="w-5 h-5" />
+                      </button>
+                      <AnimatePresence>
+                        {showFabricFor === index && (
+                          <motion.div
+                            initial={{ opacity: 0, y: 10, scale: 0.95 }}
+                            animate={{ opacity: 1, y: 0, scale: 1 }}
+                            exit={{ opacity: 0, y: 10, scale: 0.95 }}
+                            className="absolute z-10 top-full right-0 mt-2 p-3 bg-black/50 backdrop-blur-xl border border-white/20 rounded-lg shadow-lg"
+                          >
+                            {maskedLayerIndex === index && (
+                              <p className="flex items-center gap-1.5 mb-2 text-xs text-pink-300">
+                                <BrushIcon className="flex-shrink-0 w-4 h-4 text-pink-400" />
+                                {t('outfitStack.maskApplies')}
+                              </p>
+                            )}
+                            <FabricSwatchPicker
+                              disabled={isLoading}
+                              onApply={(swatch, note) => {
+                                onGarmentFabricChangeAtIndex(index, swatch, note);
+                                setShowFabricFor(null);
+                              }}
+                            />
+                          </motion.div>
+                        )}
+                      </AnimatePresence>
+                    </div>
+                    <div className="relative">
+                      <button
+                        onClick={() => {
+                          setShowSwapFor(showSwapFor === index ? null : index);
+                          setShowColorPickerFor(null);
+                          setShowMagicWandFor(null);
+                          setShowFabricFor(null);
+                        }}
+                        disabled={isLoading}
+                        className="text-gray-300 hover:text-white transition-colors p-2 rounded-md hover:bg-white/10 disabled:opacity-50"
+                        aria-label={`${t('outfitStack.swap')} ${layer.garment?.name}`}
+                      >
+                        <SwapIcon className="w-5 h-5" />
+                      </button>
+                      <AnimatePresence>
+                        {showSwapFor === index && (
+                          <motion.div
+                            initial={{ opacity: 0, y: 10, scale: 0.95 }}
+                            animate={{ opacity: 1, y: 0, scale: 1 }}
+                            exit={{ opacity: 0, y: 10, scale: 0.95 }}
+                            className="absolute z-10 top-full right-0 mt-2 p-2 bg-black/50 backdrop-blur-xl border border-white/20 rounded-lg shadow-lg w-56"
                           >
-                            {COLORS.map(color => (
-                              <button
-                                key={color}
-                                onClick={() => {
-                                  onGarmentColorChangeAtIndex(index, color);
-                                  setShowColorPickerFor(null);
-                                }}
-                                className="w-6 h-6 rounded-full border border-gray-300/50 transition-transform active:scale-90 hover:scale-110"
-                                style={{ backgroundColor: color }}
-                                aria-label={`${t('outfitStack.changeColorTo')} ${color}`}
-                              />
-                            ))}
+                            <p className="text-xs text-gray-400 px-1 pb-2 font-semibold uppercase">{t('outfitStack.swapTitle')}</p>
+                            <div className="grid grid-cols-4 gap-1.5 max-h-40 overflow-y-auto">
+                              {[...wardrobe]
+                                .filter(item => item.id !== layer.garment?.id)
+                                // Garments of the same category first: they are the likely swaps.
+                                .sort((a, b) => Number(b.category === layer.garment?.category) - Number(a.category === layer.garment?.category))
+                                .map(item => (
+                                  <button
+                                    key={item.id}
+                                    onClick={() => handleSwapWithItem(index, item)}
+                                    className="aspect-square rounded-md overflow-hidden border border-white/20 hover:border-white/60 transition-colors"
+                                    title={item.name}
+                                    aria-label={`${t('outfitStack.swapTitle')} ${item.name}`}
+                                  >
+                                    <img src={item.url} alt={item.name} className="w-full h-full object-cover" />
+                                  </button>
+                                ))}
+                              <label className="aspect-square rounded-md border-2 border-dashed border-white/30 flex items-center justify-center text-gray-300 hover:border-white/50 hover:text-white cursor-pointer transition-colors">
+                                <UploadCloudIcon className="w-4 h-4" />
+                                <input type="file" className="hidden" accept="image/png, image/jpeg, image/webp, image/avif, image/heic, image/heif" onChange={(e) => handleSwapUpload(e, index)} />
+                              </label>
+                            </div>
+                            {wardrobe.every(item => item.id === layer.garment?.id) && (
+                              <p className="text-xs text-gray-400 px-1 pt-2">{t('outfitStack.swapEmpty')}</p>
+                            )}
                           </motion.div>
                         )}
                       </AnimatePresence>
                     </div>
                     <button
-                      onClick={() => onRevertToLayer(index)}
-                      className="text-gray-300 hover:text-red-400 transition-colors p-2 rounded-md hover:bg-red-500/10"
+                      onClick={() => onRemoveLayer(index)}
+                      disabled={isLoading}
+                      className="text-gray-300 hover:text-red-400 transition-colors p-2 rounded-md hover:bg-red-500/10 disabled:opacity-50"
                       aria-label={`${t('outfitStack.remove')} ${layer.garment?.name}`}
                     >
                       <Trash2Icon className="w-5 h-5" />
@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Pose } from '../types.ts';
+import { XIcon } from './icons.tsx';
+import ReferenceImageField from './ReferenceImageField.tsx';
+import { useLanguage } from '../contexts/LanguageContext.tsx';
+import { nameFromDescription } from '../lib/utils.ts';
+
+export type PoseDraft = Required<Pick<Pose, 'name' | 'instruction'>>;
+
+interface PoseModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (draft: PoseDraft, referenceImage: File | null, tryNow: boolean) => void;
+}
+
+const PoseModal: React.FC<PoseModalProps> = ({ isOpen, onClose, onSave }) => {
+  const { t } = useLanguage();
+  const [instruction, setInstruction] = useState('');
+  const [name, setName] = useState('');
+  const [referenceImage, setReferenceImage] = useState<File | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setInstruction('');
+    setName('');
+    setReferenceImage(null);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const trimmedInstruction = instruction.trim();
+  const canSave = !!trimmedInstruction || !!referenceImage;
+
+  const handleSave = (tryNow: boolean) => {
+    if (!canSave) return;
+    const fallbackName = trimmedInstruction ? nameFromDescription(trimmedInstruction) : t('poseLibrary.untitled');
+    onSave({ name: name.trim() || fallbackName, instruction: trimmedInstruction }, referenceImage, tryNow);
+  };
+
+  return (
+    <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/60 backdrop-blur-lg z-50 flex items-center justify-center p-4"
+        onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.9, y: 20 }}
+        className="relative bg-gray-800/30 backdrop-blur-2xl border border-white/20 p-6 rounded-2xl shadow-2xl max-w-md w-full"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-2xl font-serif text-center mb-6 text-white">{t('poseLibrary.title')}</h2>
+
+        <label className="block text-xs text-gray-400 font-semibold uppercase mb-1" htmlFor="pose-instruction">
+          {t('poseLibrary.instruction')}
+        </label>
+        <textarea
+          id="pose-instruction"
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          rows={3}
+          placeholder={t('poseLibrary.instructionPlaceholder')}
+          className="w-full bg-white/5 border border-white/20 rounded-lg p-3 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-white/50 resize-none"
+        />
+
+        <ReferenceImageField
+          className="mt-4"
+          image={referenceImage}
+          onChange={setReferenceImage}
+          labels={{ title: t('poseLibrary.referenceImage'), upload: t('poseLibrary.uploadImage'), remove: t('poseLibrary.removeImage') }}
+          previewClassName="w-32 aspect-[2/3] mx-auto"
+        />
+
+        <label className="block text-xs text-gray-400 font-semibold uppercase mt-4 mb-1" htmlFor="pose-name">
+          {t('poseLibrary.name')}
+        </label>
+        <input
+          id="pose-name"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={t('poseLibrary.namePlaceholder')}
+          className="w-full bg-white/5 border border-white/20 rounded-lg p-3 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-white/50"
+        />
+
+        <div className="grid grid-cols-2 gap-3 mt-6">
+          <button
+            onClick={() => handleSave(false)}
+            disabled={!canSave}
+            className="w-full bg-white/10 text-white font-semibold py-3 px-4 rounded-lg border border-white/20 hover:bg-white/20 active:scale-95 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('poseLibrary.save')}
+          </button>
+          <button
+            onClick={() => handleSave(true)}
+            disabled={!canSave}
+            className="w-full bg-white text-gray-900 font-semibold py-3 px-4 rounded-lg hover:bg-gray-200 active:scale-95 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('poseLibrary.saveAndTry')}
+          </button>
+        </div>
+
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 p-2 rounded-full bg-white/10 hover:bg-white/20"
+          aria-label={t('poseLibrary.close')}
+        >
+          <XIcon className="w-5 h-5 text-white" />
+        </button>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default PoseModal;
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { UploadCloudIcon, XIcon } from './icons.tsx';
+import { cn } from '../lib/utils.ts';
+
+interface ReferenceImageFieldProps {
+  image: File | null;
+  onChange: (image: File | null) => void;
+  labels: { title: string; upload: string; remove: string };
+  /** Size and shape of the preview, e.g. `w-32 aspect-[2/3] mx-auto`. */
+  previewClassName: string;
+  className?: string;
+}
+
+// An optional reference photo in the pose and scene preset forms: an upload button, or a preview to remove it from.
+const ReferenceImageField: React.FC<ReferenceImageFieldProps> = ({ image, onChange, labels, previewClassName, className }) => {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!image) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(image);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [image]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file?.type.startsWith('image/')) onChange(file);
+    e.target.value = '';
+  };
+
+  return (
+    <div className={className}>
+      <p className="text-xs text-gray-400 font-semibold uppercase mb-1">{labels.title}</p>
+      {previewUrl ? (
+        <div className={cn('relative rounded-lg overflow-hidden border border-white/20', previewClassName)}>
+          <img src={previewUrl} alt={labels.title} className="w-full h-full object-cover" />
+          <button
+            onClick={() => onChange(null)}
+            className="absolute top-2 right-2 p-1.5 rounded-full bg-black/50 hover:bg-black/70"
+            aria-label={labels.remove}
+          >
+            <XIcon className="w-4 h-4 text-white" />
+          </button>
+        </div>
+      ) : (
+        <label className="w-full flex items-center justify-center gap-2 p-4 rounded-lg border border-dashed border-white/20 text-sm text-gray-300 hover:bg-white/5 cursor-pointer">
+          <UploadCloudIcon className="w-5 h-5" />
+          <span>{labels.upload}</span>
+          <input type="file" className="hidden" accept="image/png, image/jpeg, image/webp, image/avif, image/heic, image/heif" onChange={handleFileChange} />
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default ReferenceImageField;
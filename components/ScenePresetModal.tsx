@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ScenePreset, ScenePresetKind } from '../types.ts';
+import { XIcon } from './icons.tsx';
+import ReferenceImageField from './ReferenceImageField.tsx';
+import { useLanguage } from '../contexts/LanguageContext.tsx';
+import { cn, nameFromDescription } from '../lib/utils.ts';
+
+export type ScenePresetDraft = Pick<ScenePreset, 'kind' | 'name' | 'prompt'>;
+
+interface ScenePresetModalProps {
+  /** The kind of preset to start with; the modal is closed while this is null. */
+  kind: ScenePresetKind | null;
+  onClose: () => void;
+  onSave: (draft: ScenePresetDraft, referenceImage: File | null, apply: boolean) => void;
+}
+
+const ScenePresetModal: React.FC<ScenePresetModalProps> = ({ kind, onClose, onSave }) => {
+  const { t } = useLanguage();
+  const [selectedKind, setSelectedKind] = useState<ScenePresetKind>('background');
+  const [prompt, setPrompt] = useState('');
+  const [name, setName] = useState('');
+  const [referenceImage, setReferenceImage] = useState<File | null>(null);
+
+  useEffect(() => {
+    if (!kind) return;
+    setSelectedKind(kind);
+    setPrompt('');
+    setName('');
+    setReferenceImage(null);
+  }, [kind]);
+
+  if (!kind) return null;
+
+  const image = selectedKind === 'background' ? referenceImage : null;
+  const trimmedPrompt = prompt.trim();
+  const canSave = !!trimmedPrompt || !!image;
+
+  const handleSave = (apply: boolean) => {
+    if (!canSave) return;
+    const fallbackName = trimmedPrompt ? nameFromDescription(trimmedPrompt) : t('scenePresets.untitled');
+    onSave({ kind: selectedKind, name: name.trim() || fallbackName, prompt: trimmedPrompt }, image, apply);
+  };
+
+  return (
+    <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/60 backdrop-blur-lg z-50 flex items-center justify-center p-4"
+        onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.9, y: 20 }}
+        className="relative bg-gray-800/30 backdrop-blur-2xl border border-white/20 p-6 rounded-2xl shadow-2xl max-w-md w-full"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-2xl font-serif text-center mb-6 text-white">{t('scenePresets.title')}</h2>
+
+        <div className="grid grid-cols-2 gap-1 p-1 bg-white/5 rounded-lg mb-4">
+          {(['background', 'lighting'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setSelectedKind(option)}
+              className={cn(
+                'text-sm font-semibold py-2 rounded-md transition-colors',
+                option === selectedKind ? 'bg-white text-gray-900' : 'text-gray-300 hover:bg-white/10'
+              )}
+            >
+              {t(`canvas.${option}`)}
+            </button>
+          ))}
+        </div>
+
+        <label className="block text-xs text-gray-400 font-semibold uppercase mb-1" htmlFor="scene-preset-prompt">
+          {t('scenePresets.description')}
+        </label>
+        <textarea
+          id="scene-preset-prompt"
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          rows={3}
+          placeholder={selectedKind === 'background' ? t('scenePresets.backgroundPlaceholder') : t('scenePresets.lightingPlaceholder')}
+          className="w-full bg-white/5 border border-white/20 rounded-lg p-3 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-white/50 resize-none"
+        />
+
+        {selectedKind === 'background' && (
+          <ReferenceImageField
+            className="mt-4"
+            image={referenceImage}
+            onChange={setReferenceImage}
+            labels={{ title: t('scenePresets.referenceImage'), upload: t('scenePresets.uploadImage'), remove: t('scenePresets.removeImage') }}
+            previewClassName="w-full aspect-video"
+          />
+        )}
+
+        <label className="block text-xs text-gray-400 font-semibold uppercase mt-4 mb-1" htmlFor="scene-preset-name">
+          {t('scenePresets.name')}
+        </label>
+        <input
+          id="scene-preset-name"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={t('scenePresets.namePlaceholder')}
+          className="w-full bg-white/5 border border-white/20 rounded-lg p-3 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-white/50"
+        />
+
+        <div className="grid grid-cols-2 gap-3 mt-6">
+          <button
+            onClick={() => handleSave(false)}
+            disabled={!canSave}
+            className="w-full bg-white/10 text-white font-semibold py-3 px-4 rounded-lg border border-white/20 hover:bg-white/20 active:scale-95 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('scenePresets.save')}
+          </button>
+          <button
+            onClick={() => handleSave(true)}
+            disabled={!canSave}
+            className="w-full bg-white text-gray-900 font-semibold py-3 px-4 rounded-lg hover:bg-gray-200 active:scale-95 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('scenePresets.saveAndApply')}
+          </button>
+        </div>
+
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 p-2 rounded-full bg-white/10 hover:bg-white/20"
+          aria-label={t('scenePresets.close')}
+        >
+          <XIcon className="w-5 h-5 text-white" />
+        </button>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default ScenePresetModal;
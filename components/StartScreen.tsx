@@ -3,50 +3,126 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { UploadCloudIcon } from './icons.tsx';
+import { AlertCircleIcon, CameraIcon, RefreshCwIcon, UploadCloudIcon } from './icons.tsx';
 import { Compare } from './ui/compare.tsx';
 import { generateModelImage } from '../services/geminiService.ts';
+import { releaseImages } from '../services/imageStore.ts';
 import Spinner from './Spinner.tsx';
+import CameraCapture from './CameraCapture.tsx';
+import ModelOptionsPanel from './ModelOptionsPanel.tsx';
 import { getFriendlyErrorMessage } from '../lib/utils.ts';
 import { useLanguage } from '../contexts/LanguageContext.tsx';
+import type { SessionSummary } from '../services/sessionStore.ts';
+import { checkPhotoQuality, PhotoIssue } from '../lib/photoQuality.ts';
+import { DEFAULT_MODEL_CREATION_OPTIONS, ModelCreationOptions } from '../types.ts';
+
+const PHOTO_ISSUE_KEYS = {
+  lowResolution: { problem: 'start.quality.issues.lowResolution', fix: 'start.quality.fixes.lowResolution' },
+  notPortrait: { problem: 'start.quality.issues.notPortrait', fix: 'start.quality.fixes.notPortrait' },
+  blurry: { problem: 'start.quality.issues.blurry', fix: 'start.quality.fixes.blurry' },
+  tooDark: { problem: 'start.quality.issues.tooDark', fix: 'start.quality.fixes.tooDark' },
+  overexposed: { problem: 'start.quality.issues.overexposed', fix: 'start.quality.fixes.overexposed' },
+  fileTooSmall: { problem: 'start.quality.issues.fileTooSmall', fix: 'start.quality.fixes.fileTooSmall' },
+  fileTooLarge: { problem: 'start.quality.issues.fileTooLarge', fix: 'start.quality.fixes.fileTooLarge' },
+} as const satisfies Record<PhotoIssue, { problem: string; fix: string }>;
+
+// Whether two sets of options ask for the same model; the scene description only counts for a scene background.
+const areSameModelOptions = (a: ModelCreationOptions, b: ModelCreationOptions) =>
+  a.background === b.background && a.pose === b.pose && a.framing === b.framing
+  && (a.background !== 'scene' || (a.scenePrompt ?? '').trim() === (b.scenePrompt ?? '').trim());
 
 interface StartScreenProps {
   onModelFinalized: (modelUrl: string) => void;
+  savedSession: SessionSummary | null;
+  onResumeSession: () => void;
+  onDiscardSession: () => void;
 }
 
-const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
+const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized, savedSession, onResumeSession, onDiscardSession }) => {
   const [userImageUrl, setUserImageUrl] = useState<string | null>(null);
+  const [userFile, setUserFile] = useState<File | null>(null);
   const [generatedModelUrl, setGeneratedModelUrl] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Problems found in the photo before generating; the user fixes them or goes ahead anyway.
+  const [photoIssues, setPhotoIssues] = useState<PhotoIssue[] | null>(null);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [modelOptions, setModelOptions] = useState<ModelCreationOptions>(DEFAULT_MODEL_CREATION_OPTIONS);
+  // The options the shown model was made with; once they differ from the panel's, the model is out of date.
+  const [generatedModelOptions, setGeneratedModelOptions] = useState<ModelCreationOptions | null>(null);
+  const generationControllerRef = useRef<AbortController | null>(null);
   const { t } = useLanguage();
 
+  const generateModel = useCallback(async (file: File, skipCache: boolean) => {
+    setIsGenerating(true);
+    setGeneratedModelUrl(null);
+    setGeneratedModelOptions(null);
+    setError(null);
+    generationControllerRef.current?.abort();
+    const controller = new AbortController();
+    generationControllerRef.current = controller;
+    try {
+        const result = await generateModelImage(file, modelOptions, { signal: controller.signal, skipCache });
+        if (controller.signal.aborted) {
+            releaseImages(result);
+            return;
+        }
+        setGeneratedModelUrl(result);
+        setGeneratedModelOptions(modelOptions);
+    } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(getFriendlyErrorMessage(err, t('start.error.createModel')));
+    } finally {
+        if (generationControllerRef.current === controller) {
+            generationControllerRef.current = null;
+            setIsGenerating(false);
+        }
+    }
+  }, [t, modelOptions]);
+
+  // The preview is in no state until the model is finalized, which keeps it; one replaced or left behind is let go.
+  useEffect(() => () => {
+    if (generatedModelUrl) releaseImages(generatedModelUrl);
+  }, [generatedModelUrl]);
+
   const handleFileSelect = useCallback(async (file: File) => {
     if (!file.type.startsWith('image/')) {
         setError(t('start.error.fileType'));
         return;
     }
 
+    const issues = await checkPhotoQuality(file).catch(err => {
+        console.warn('Could not check the photo quality.', err);
+        return [];
+    });
     const reader = new FileReader();
-    reader.onload = async (e) => {
+    reader.onload = (e) => {
         const dataUrl = e.target?.result as string;
         setUserImageUrl(dataUrl);
-        setIsGenerating(true);
-        setGeneratedModelUrl(null);
-        setError(null);
-        try {
-            const result = await generateModelImage(file);
-            setGeneratedModelUrl(result);
-        } catch (err) {
-            setError(getFriendlyErrorMessage(err, t('start.error.createModel')));
-        } finally {
-            setIsGenerating(false);
+        setUserFile(file);
+        if (issues.length > 0) {
+            setPhotoIssues(issues);
+        } else {
+            generateModel(file, false);
         }
     };
     reader.readAsDataURL(file);
-  }, [t]);
+  }, [t, generateModel]);
+
+  const handleUsePhotoAnyway = () => {
+    setPhotoIssues(null);
+    if (userFile) generateModel(userFile, false);
+  };
+
+  const isModelOutdated = !!generatedModelOptions && !areSameModelOptions(generatedModelOptions, modelOptions);
+
+  // "Regenerate anyway": ask for a new model image instead of the cached one for this photo and options.
+  // With changed options, the model is simply made for them, from the cache if it has one.
+  const handleRegenerate = () => {
+    if (userFile) generateModel(userFile, !isModelOutdated);
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
@@ -54,11 +130,22 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
     }
   };
 
+  // A confirmed camera photo goes through the same checks and generation as an upload.
+  const handleCameraCapture = (file: File) => {
+    setIsCameraOpen(false);
+    handleFileSelect(file);
+  };
+
   const reset = () => {
+    generationControllerRef.current?.abort();
+    generationControllerRef.current = null;
     setUserImageUrl(null);
+    setUserFile(null);
     setGeneratedModelUrl(null);
+    setGeneratedModelOptions(null);
     setIsGenerating(false);
     setError(null);
+    setPhotoIssues(null);
   };
 
   const screenVariants = {
@@ -68,6 +155,7 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
   };
 
   return (
+    <>
     <AnimatePresence mode="wait">
       {!userImageUrl ? (
         <motion.div
@@ -100,9 +188,42 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
                   onChange={handleFileChange}
                   accept="image/png, image/jpeg, image/webp, image/avif, image/heic, image/heif" 
                 />
+                <button
+                  onClick={() => setIsCameraOpen(true)}
+                  className="w-full flex items-center justify-center px-8 py-3 text-base font-semibold text-white bg-black/20 backdrop-blur-md border border-white/20 hover:bg-white/20 rounded-md transition-colors"
+                >
+                  <CameraIcon className="w-5 h-5 mr-3" />
+                  {t('start.useCamera')}
+                </button>
                 <p className="text-xs text-gray-400">
                   {t('start.tip')}
                 </p>
+                <ModelOptionsPanel options={modelOptions} onChange={setModelOptions} />
+                {savedSession && (
+                  <div className="w-full mt-4 flex items-center gap-4 bg-white/5 backdrop-blur-md border border-white/20 rounded-lg p-3 animate-fade-in">
+                    <img src={savedSession.previewUrl} alt="" className="w-12 h-16 object-cover rounded-md flex-shrink-0" />
+                    <div className="flex-grow text-left min-w-0">
+                      <p className="font-semibold text-white">{t('start.resume.title')}</p>
+                      <p className="text-xs text-gray-400 truncate">
+                        {t('start.resume.savedAt')} {new Date(savedSession.savedAt).toLocaleString()}
+                      </p>
+                    </div>
+                    <div className="flex flex-col gap-1 flex-shrink-0">
+                      <button
+                        onClick={onResumeSession}
+                        className="bg-white/10 text-white text-sm font-semibold py-1.5 px-3 rounded-md border border-white/20 hover:bg-white/20 active:scale-95 transition-all"
+                      >
+                        {t('start.resume.resume')}
+                      </button>
+                      <button
+                        onClick={onDiscardSession}
+                        className="text-xs text-gray-400 hover:text-white transition-colors"
+                      >
+                        {t('start.resume.discard')}
+                      </button>
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -147,6 +268,31 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
                       </button>
                   </div>
               )}
+              {photoIssues && (
+                  <div className="absolute inset-0 bg-amber-900/40 backdrop-blur-md flex flex-col z-30 rounded-2xl p-4 sm:p-6 overflow-y-auto">
+                      <div className="flex items-center gap-2 text-white">
+                          <AlertCircleIcon className="w-5 h-5 flex-shrink-0 text-amber-300" />
+                          <p className="font-bold text-lg">{t('start.quality.title')}</p>
+                      </div>
+                      <p className="mt-1 text-sm text-amber-100">{t('start.quality.description')}</p>
+                      <ul className="mt-4 flex flex-col gap-3 text-left">
+                          {photoIssues.map(issue => (
+                              <li key={issue} className="text-sm">
+                                  <p className="font-semibold text-white">{t(PHOTO_ISSUE_KEYS[issue].problem)}</p>
+                                  <p className="text-amber-100">{t(PHOTO_ISSUE_KEYS[issue].fix)}</p>
+                              </li>
+                          ))}
+                      </ul>
+                      <div className="mt-auto pt-4 flex flex-col sm:flex-row gap-2">
+                          <button onClick={reset} className="flex-1 bg-white text-gray-900 font-semibold py-2 px-4 rounded-lg hover:bg-gray-200 active:scale-95 transition-all">
+                              {t('start.quality.chooseAnother')}
+                          </button>
+                          <button onClick={handleUsePhotoAnyway} className="flex-1 bg-white/10 text-white font-semibold py-2 px-4 rounded-lg border border-white/20 hover:bg-white/20 active:scale-95 transition-all">
+                              {t('start.quality.useAnyway')}
+                          </button>
+                      </div>
+                  </div>
+              )}
               {!isGenerating && !error && generatedModelUrl && userImageUrl && (
                   <Compare 
                       firstImage={userImageUrl}
@@ -156,6 +302,13 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
               )}
           </div>
           
+          <div className="mt-6 w-full max-w-xs sm:max-w-sm md:max-w-md">
+              <ModelOptionsPanel options={modelOptions} onChange={setModelOptions} disabled={isGenerating} />
+              {isModelOutdated && !isGenerating && (
+                  <p className="mt-2 text-sm text-amber-200 text-center">{t('start.compare.optionsChanged')}</p>
+              )}
+          </div>
+
           <div className="mt-8 flex flex-col sm:flex-row items-center justify-center gap-4 w-full max-w-sm sm:max-w-none">
               <button 
                   onClick={reset}
@@ -163,9 +316,17 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
               >
                   {t('start.compare.newPhoto')}
               </button>
+              <button
+                  onClick={handleRegenerate}
+                  disabled={!generatedModelUrl || isGenerating}
+                  className="w-full sm:w-auto flex items-center justify-center text-center bg-black/20 backdrop-blur-md text-white border border-white/20 hover:bg-white/20 font-semibold py-3 px-6 rounded-lg transition-colors duration-200 ease-in-out active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                  <RefreshCwIcon className="w-4 h-4 mr-2" />
+                  {isModelOutdated ? t('start.compare.applyOptions') : t('start.compare.regenerate')}
+              </button>
               <button 
                   onClick={() => onModelFinalized(generatedModelUrl!)}
-                  disabled={!generatedModelUrl || isGenerating}
+                  disabled={!generatedModelUrl || isGenerating || isModelOutdated}
                   className="w-full sm:w-auto flex items-center justify-center text-center bg-white/10 backdrop-blur-md text-white border border-white/20 hover:bg-white/20 font-semibold py-3 px-6 rounded-lg transition-colors duration-200 ease-in-out active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed"
               >
                   {t('start.compare.continue')}
@@ -174,6 +335,16 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized }) => {
         </motion.div>
       )}
     </AnimatePresence>
+    <AnimatePresence>
+      {isCameraOpen && (
+        <CameraCapture
+          isOpen={isCameraOpen}
+          onClose={() => setIsCameraOpen(false)}
+          onCapture={handleCameraCapture}
+        />
+      )}
+    </AnimatePresence>
+    </>
   );
 };
 
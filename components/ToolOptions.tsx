@@ -2,3 +2,47 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React from 'react';
+import { MaskTool } from '../types.ts';
+import { useLanguage } from '../contexts/LanguageContext.tsx';
+
+interface ToolOptionsProps {
+  tool: MaskTool;
+  brushSize: number;
+  onBrushSizeChange: (size: number) => void;
+}
+
+const MIN_BRUSH_SIZE = 5;
+const MAX_BRUSH_SIZE = 80;
+
+const ToolOptions: React.FC<ToolOptionsProps> = ({ tool, brushSize, onBrushSizeChange }) => {
+  const { t } = useLanguage();
+
+  return (
+    <div className="flex items-center gap-3 bg-black/40 backdrop-blur-md border border-white/20 rounded-full px-4 py-2 text-sm text-gray-200">
+      {tool === 'lasso' ? (
+        <span>{t('maskEditor.lassoHint')}</span>
+      ) : (
+        <>
+          <label htmlFor="mask-brush-size" className="font-medium">{t('maskEditor.brushSize')}</label>
+          <input
+            id="mask-brush-size"
+            type="range"
+            min={MIN_BRUSH_SIZE}
+            max={MAX_BRUSH_SIZE}
+            value={brushSize}
+            onChange={(e) => onBrushSizeChange(Number(e.target.value))}
+            className="w-28 accent-white"
+          />
+          <span
+            className="flex-shrink-0 rounded-full border border-white/60"
+            style={{ width: brushSize / 3 + 4, height: brushSize / 3 + 4 }}
+            aria-hidden="true"
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ToolOptions;
@@ -2,3 +2,61 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React from 'react';
+import { MaskTool } from '../types.ts';
+import { BrushIcon, LassoIcon, EraserIcon, Trash2Icon, CheckCircleIcon } from './icons.tsx';
+import { useLanguage } from '../contexts/LanguageContext.tsx';
+
+interface ToolbarProps {
+  tool: MaskTool;
+  onToolChange: (tool: MaskTool) => void;
+  canClear: boolean;
+  onClear: () => void;
+  onDone: () => void;
+}
+
+const TOOLS = [
+  { tool: 'brush', Icon: BrushIcon, labelKey: 'maskEditor.brush' },
+  { tool: 'lasso', Icon: LassoIcon, labelKey: 'maskEditor.lasso' },
+  { tool: 'eraser', Icon: EraserIcon, labelKey: 'maskEditor.eraser' },
+] as const;
+
+const Toolbar: React.FC<ToolbarProps> = ({ tool, onToolChange, canClear, onClear, onDone }) => {
+  const { t } = useLanguage();
+
+  return (
+    <div className="flex items-center gap-1 bg-black/40 backdrop-blur-md border border-white/20 rounded-full p-1">
+      {TOOLS.map(({ tool: option, Icon, labelKey }) => (
+        <button
+          key={option}
+          onClick={() => onToolChange(option)}
+          className={`p-2 rounded-full transition-colors active:scale-90 ${option === tool ? 'bg-white text-gray-900' : 'text-white hover:bg-white/10'}`}
+          aria-pressed={option === tool}
+          aria-label={t(labelKey)}
+          title={t(labelKey)}
+        >
+          <Icon className="w-4 h-4" />
+        </button>
+      ))}
+      <div className="w-px h-5 bg-white/20 mx-1" />
+      <button
+        onClick={onClear}
+        disabled={!canClear}
+        className="p-2 rounded-full text-white hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed transition-colors active:scale-90"
+        aria-label={t('maskEditor.clear')}
+        title={t('maskEditor.clear')}
+      >
+        <Trash2Icon className="w-4 h-4" />
+      </button>
+      <button
+        onClick={onDone}
+        className="flex items-center gap-1.5 pl-2 pr-3 py-1.5 rounded-full text-sm font-semibold text-gray-900 bg-white hover:bg-gray-200 transition-colors active:scale-95"
+      >
+        <CheckCircleIcon className="w-4 h-4" />
+        {t('maskEditor.done')}
+      </button>
+    </div>
+  );
+};
+
+export default Toolbar;
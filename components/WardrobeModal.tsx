@@ -3,56 +3,26 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useState, useMemo } from 'react';
-import type { WardrobeItem } from '../types.ts';
-import { UploadCloudIcon, CheckCircleIcon } from './icons.tsx';
+import { WARDROBE_CATEGORIES, type WardrobeCategory, type WardrobeItem } from '../types.ts';
+import type { WardrobeItemChanges } from '../services/wardrobeStore.ts';
+import { UploadCloudIcon, CheckCircleIcon, PencilIcon, Trash2Icon } from './icons.tsx';
 import { useLanguage } from '../contexts/LanguageContext.tsx';
+import { urlToFile } from '../lib/utils.ts';
+import { storeImage } from '../services/imageStore.ts';
 
 interface WardrobePanelProps {
   onGarmentSelect: (garmentFile: File, garmentInfo: WardrobeItem) => void;
   activeGarmentIds: string[];
   isLoading: boolean;
   wardrobe: WardrobeItem[];
+  onUpdateItem: (id: string, changes: WardrobeItemChanges) => void;
+  onDeleteItem: (id: string) => void;
 }
 
-type Category = 'top' | 'accessory';
-
-const urlToFile = (url: string, filename: string): Promise<File> => {
-    return new Promise((resolve, reject) => {
-        const image = new Image();
-        image.setAttribute('crossOrigin', 'anonymous');
-
-        image.onload = () => {
-            const canvas = document.createElement('canvas');
-            canvas.width = image.naturalWidth;
-            canvas.height = image.naturalHeight;
-
-            const ctx = canvas.getContext('2d');
-            if (!ctx) {
-                return reject(new Error('Could not get canvas context.'));
-            }
-            ctx.drawImage(image, 0, 0);
-
-            canvas.toBlob((blob) => {
-                if (!blob) {
-                    return reject(new Error('Canvas toBlob failed.'));
-                }
-                const mimeType = blob.type || 'image/png';
-                const file = new File([blob], filename, { type: mimeType });
-                resolve(file);
-            }, 'image/png');
-        };
-
-        image.onerror = (error) => {
-            reject(new Error(`Could not load image from URL for canvas conversion. Error: ${error}`));
-        };
-
-        image.src = url;
-    });
-};
-
-const WardrobePanel: React.FC<WardrobePanelProps> = ({ onGarmentSelect, activeGarmentIds, isLoading, wardrobe }) => {
+const WardrobePanel: React.FC<WardrobePanelProps> = ({ onGarmentSelect, activeGarmentIds, isLoading, wardrobe, onUpdateItem, onDeleteItem }) => {
     const [error, setError] = useState<string | null>(null);
-    const [activeCategory, setActiveCategory] = useState<Category>('top');
+    const [activeCategory, setActiveCategory] = useState<WardrobeCategory>('top');
+    const [isManaging, setIsManaging] = useState(false);
     const { t } = useLanguage();
 
     const filteredWardrobe = useMemo(() => 
@@ -73,7 +43,14 @@ const WardrobePanel: React.FC<WardrobePanelProps> = ({ onGarmentSelect, activeGa
         }
     };
 
-    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const handleRename = (item: WardrobeItem, name: string) => {
+        const trimmed = name.trim();
+        if (trimmed && trimmed !== item.name) {
+            onUpdateItem(item.id, { name: trimmed });
+        }
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files[0]) {
             const file = e.target.files[0];
             if (!file.type.startsWith('image/')) {
@@ -83,7 +60,7 @@ const WardrobePanel: React.FC<WardrobePanelProps> = ({ onGarmentSelect, activeGa
             const customGarmentInfo: WardrobeItem = {
                 id: `custom-${Date.now()}`,
                 name: file.name,
-                url: URL.createObjectURL(file),
+                url: await storeImage(file),
                 category: activeCategory
             };
             onGarmentSelect(file, customGarmentInfo);
@@ -92,21 +69,69 @@ const WardrobePanel: React.FC<WardrobePanelProps> = ({ onGarmentSelect, activeGa
 
   return (
     <div className="pt-6 border-t border-white/20">
-        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between mb-3 gap-2">
+        <div className="flex flex-col items-start mb-3 gap-2">
              <div className="flex items-center gap-3">
                 <h2 className="text-xl font-serif tracking-wider text-white">{t('wardrobe.title')}</h2>
+                {wardrobe.length > 0 && (
+                    <button
+                        onClick={() => setIsManaging(prev => !prev)}
+                        className={`p-1.5 rounded-full transition-colors ${isManaging ? 'bg-white/20 text-white' : 'text-gray-300 hover:bg-white/10 hover:text-white'}`}
+                        aria-label={isManaging ? t('wardrobe.manage.done') : t('wardrobe.manage.title')}
+                        aria-pressed={isManaging}
+                    >
+                        <PencilIcon className="w-4 h-4" />
+                    </button>
+                )}
             </div>
-            <div className="flex-shrink-0 flex items-center gap-1 bg-black/20 backdrop-blur-md border border-white/20 rounded-full p-1">
-                <button 
-                    onClick={() => setActiveCategory('top')}
-                    className={`px-3 py-1 text-sm font-semibold rounded-full transition-colors ${activeCategory === 'top' ? 'bg-white/20 text-white' : 'text-gray-300 hover:bg-white/10'}`}
-                >{t('wardrobe.tops')}</button>
-                 <button 
-                    onClick={() => setActiveCategory('accessory')}
-                    className={`px-3 py-1 text-sm font-semibold rounded-full transition-colors ${activeCategory === 'accessory' ? 'bg-white/20 text-white' : 'text-gray-300 hover:bg-white/10'}`}
-                >{t('wardrobe.accessories')}</button>
+            <div className="max-w-full flex items-center gap-1 bg-black/20 backdrop-blur-md border border-white/20 rounded-full p-1 overflow-x-auto">
+                {WARDROBE_CATEGORIES.map(category => (
+                    <button
+                        key={category}
+                        onClick={() => setActiveCategory(category)}
+                        className={`flex-shrink-0 whitespace-nowrap px-3 py-1 text-sm font-semibold rounded-full transition-colors ${activeCategory === category ? 'bg-white/20 text-white' : 'text-gray-300 hover:bg-white/10'}`}
+                    >{t(`wardrobe.categories.${category}`)}</button>
+                ))}
             </div>
         </div>
+        {isManaging ? (
+        <div className="space-y-2">
+            {filteredWardrobe.map((item) => (
+                <div key={item.id} className="flex items-center gap-2 bg-white/10 backdrop-blur-md p-2 rounded-lg border border-white/20">
+                    <img src={item.url} alt={item.name} className="flex-shrink-0 w-12 h-12 object-cover rounded-md" />
+                    <div className="flex-grow min-w-0 flex flex-col gap-1">
+                        <input
+                            type="text"
+                            defaultValue={item.name}
+                            onBlur={(e) => handleRename(item, e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                            className="bg-white/10 text-white text-sm rounded-md px-2 py-1 border-0 focus:ring-2 focus:ring-white/50 focus:outline-none w-full"
+                            aria-label={t('wardrobe.manage.rename')}
+                        />
+                        <select
+                            value={item.category}
+                            onChange={(e) => onUpdateItem(item.id, { category: e.target.value as WardrobeCategory })}
+                            className="bg-white/10 text-gray-200 text-xs rounded-md px-2 py-1 border-0 focus:ring-2 focus:ring-white/50 focus:outline-none"
+                            aria-label={t('wardrobe.manage.category')}
+                        >
+                            {WARDROBE_CATEGORIES.map(category => (
+                                <option key={category} value={category} className="bg-gray-900">{t(`wardrobe.categories.${category}`)}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <button
+                        onClick={() => onDeleteItem(item.id)}
+                        className="flex-shrink-0 text-gray-300 hover:text-red-400 transition-colors p-2 rounded-md hover:bg-red-500/10"
+                        aria-label={`${t('wardrobe.manage.delete')} ${item.name}`}
+                    >
+                        <Trash2Icon className="w-5 h-5" />
+                    </button>
+                </div>
+            ))}
+            {filteredWardrobe.length === 0 && (
+                <p className="text-center text-sm text-gray-400 py-2">{t('wardrobe.manage.emptyCategory')}</p>
+            )}
+        </div>
+        ) : (
         <div className="grid grid-cols-4 sm:grid-cols-3 gap-2 sm:gap-3">
             {filteredWardrobe.map((item) => {
             const isActive = activeGarmentIds.includes(item.id);
@@ -136,6 +161,7 @@ const WardrobePanel: React.FC<WardrobePanelProps> = ({ onGarmentSelect, activeGa
                 <input id="custom-garment-upload" type="file" className="hidden" accept="image/png, image/jpeg, image/webp, image/avif, image/heic, image/heif" onChange={handleFileChange} disabled={isLoading}/>
             </label>
         </div>
+        )}
         {wardrobe.length === 0 && (
              <p className="text-center text-sm text-gray-400 mt-4">{t('wardrobe.empty')}</p>
         )}
@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GarmentColor } from "../types.ts";
+import type { TranslationKey } from "../locales.ts";
+
+// Names the image model understands reliably, so prompts say "navy blue" rather than "#1F2A44".
+const NAMED_COLORS = [
+    ['black', '#000000'],
+    ['charcoal', '#36454F'],
+    ['dark gray', '#555555'],
+    ['gray', '#808080'],
+    ['light gray', '#C8C8C8'],
+    ['silver', '#C0C0C0'],
+    ['white', '#FFFFFF'],
+    ['off-white', '#F5F3EE'],
+    ['ivory', '#FFFFF0'],
+    ['cream', '#FFFDD0'],
+    ['beige', '#E8D9B5'],
+    ['sand', '#C2B280'],
+    ['tan', '#D2B48C'],
+    ['camel', '#C19A6B'],
+    ['khaki', '#BDB76B'],
+    ['taupe', '#8B8589'],
+    ['brown', '#7B4A2A'],
+    ['chocolate brown', '#4E2A1E'],
+    ['rust', '#B7410E'],
+    ['terracotta', '#E2725B'],
+    ['burgundy', '#800020'],
+    ['maroon', '#5C1A1B'],
+    ['wine red', '#722F37'],
+    ['red', '#E02020'],
+    ['crimson', '#B80F2E'],
+    ['coral', '#FF7F50'],
+    ['salmon', '#FA8072'],
+    ['orange', '#F97316'],
+    ['burnt orange', '#CC5500'],
+    ['peach', '#FFCBA4'],
+    ['mustard yellow', '#D4A017'],
+    ['gold', '#D4AF37'],
+    ['yellow', '#FFD600'],
+    ['lemon yellow', '#FFF44F'],
+    ['olive green', '#6B7C2F'],
+    ['khaki green', '#8A865D'],
+    ['sage green', '#9CAF88'],
+    ['mint green', '#A8E6CF'],
+    ['lime green', '#84CC16'],
+    ['green', '#22A845'],
+    ['emerald green', '#0F8A5F'],
+    ['forest green', '#1F4D2B'],
+    ['teal', '#008080'],
+    ['turquoise', '#30D5C8'],
+    ['aqua', '#7FDBFF'],
+    ['sky blue', '#87CEEB'],
+    ['light blue', '#ADD8E6'],
+    ['powder blue', '#B0C4DE'],
+    ['denim blue', '#3F5D8A'],
+    ['blue', '#2563EB'],
+    ['royal blue', '#1E3FAF'],
+    ['cobalt blue', '#0047AB'],
+    ['navy blue', '#1F2A44'],
+    ['midnight blue', '#191970'],
+    ['indigo', '#3F2A84'],
+    ['purple', '#7E3FBF'],
+    ['violet', '#A855F7'],
+    ['lavender', '#C8B6E2'],
+    ['lilac', '#C8A2C8'],
+    ['plum', '#6E2A5A'],
+    ['magenta', '#D0208F'],
+    ['fuchsia', '#EC4899'],
+    ['hot pink', '#FF4FA3'],
+    ['pink', '#F5A3C0'],
+    ['blush pink', '#F4C2C2'],
+    ['dusty rose', '#C48A8F'],
+    ['mauve', '#A87C8F'],
+] as const;
+export type ColorName = typeof NAMED_COLORS[number][0];
+
+/** Normalizes "#abc", "abc" or "#AABBCC" to "#aabbcc"; returns null for anything else. */
+export function normalizeHex(value: string): string | null {
+    const match = value.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+    if (!match) return null;
+    const digits = match[1].length === 3 ? match[1].split('').map(digit => digit + digit).join('') : match[1];
+    return `#${digits.toLowerCase()}`;
+}
+
+export function hexToRgb(hex: string): [number, number, number] {
+    const value = parseInt(hex.slice(1), 16);
+    return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+export function rgbToHex(r: number, g: number, b: number): string {
+    return `#${[r, g, b].map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/** The closest named color, by a perceptually weighted ("redmean") RGB distance. */
+export function getColorName(hex: string): ColorName {
+    const [r1, g1, b1] = hexToRgb(hex);
+    let bestName: ColorName = NAMED_COLORS[0][0];
+    let bestDistance = Infinity;
+    for (const [name, namedHex] of NAMED_COLORS) {
+        const [r2, g2, b2] = hexToRgb(namedHex);
+        const meanRed = (r1 + r2) / 2;
+        const distance = (2 + meanRed / 256) * (r1 - r2) ** 2 + 4 * (g1 - g2) ** 2 + (2 + (255 - meanRed) / 256) * (b1 - b2) ** 2;
+        if (distance < bestDistance) {
+            bestDistance = distance;
+            bestName = name;
+        }
+    }
+    return bestName;
+}
+
+/** The closest named color in the UI's language; prompts keep the English name (see `describeGarmentColor`). */
+export function getColorLabel(hex: string, t: (key: TranslationKey, fallback?: string) => string): string {
+    const name = getColorName(hex);
+    return t(`colorNames.${name}`, name);
+}
+
+/** How a color is put to the image model, e.g. "matte navy blue (hex #1f2a44)". */
+export function describeGarmentColor({ hex, finish }: GarmentColor): string {
+    return `${finish ? `${finish} ` : ''}${getColorName(hex)} (hex ${hex})`;
+}
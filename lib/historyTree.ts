@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AppStateSnapshot, getLayerBaseImage, getSceneKey } from "../types.ts";
+
+// --- Edit history as a tree: every action adds a child of the current node, so going back
+// and trying something else starts a new branch instead of discarding the old one ---
+
+export interface HistoryNode {
+    id: string;
+    parentId: string | null;
+    snapshot: AppStateSnapshot;
+    createdAt: number;
+    /** Set on the path to the current node whenever it moves, so redo follows the last branch visited. */
+    visitedAt: number;
+}
+
+export interface HistoryTree {
+    nodes: Record<string, HistoryNode>;
+    rootId: string;
+    currentId: string;
+}
+
+const createNode = (parentId: string | null, snapshot: AppStateSnapshot): HistoryNode => {
+    const now = Date.now();
+    return { id: crypto.randomUUID(), parentId, snapshot, createdAt: now, visitedAt: now };
+};
+
+export function createHistoryTree(snapshot: AppStateSnapshot): HistoryTree {
+    const root = createNode(null, snapshot);
+    return { nodes: { [root.id]: root }, rootId: root.id, currentId: root.id };
+}
+
+/** Children of `id`, oldest first. */
+export function getChildren(tree: HistoryTree, id: string): HistoryNode[] {
+    return Object.values(tree.nodes)
+        .filter(node => node.parentId === id)
+        .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/** Replaces the current node's state, for changes that shouldn't add a step of their own. */
+export function setCurrentSnapshot(tree: HistoryTree, snapshot: AppStateSnapshot): HistoryTree {
+    const current = tree.nodes[tree.currentId];
+    return { ...tree, nodes: { ...tree.nodes, [current.id]: { ...current, snapshot } } };
+}
+
+/** Adds `snapshot` as a new child of the current node and moves to it. */
+export function addHistoryNode(tree: HistoryTree, snapshot: AppStateSnapshot): HistoryTree {
+    const node = createNode(tree.currentId, snapshot);
+    return { ...tree, nodes: { ...tree.nodes, [node.id]: node }, currentId: node.id };
+}
+
+export function moveToHistoryNode(tree: HistoryTree, id: string): HistoryTree {
+    const nodes = { ...tree.nodes };
+    const now = Date.now();
+    for (let node: HistoryNode | undefined = nodes[id]; node; node = node.parentId ? nodes[node.parentId] : undefined) {
+        nodes[node.id] = { ...node, visitedAt: now };
+    }
+    return { ...tree, nodes, currentId: id };
+}
+
+/** Applies `update` to the state of every node, for changes that hold across the whole history. */
+export function mapSnapshots(tree: HistoryTree, update: (snapshot: AppStateSnapshot) => AppStateSnapshot): HistoryTree {
+    const nodes = Object.fromEntries(Object.values(tree.nodes).map(node => [node.id, { ...node, snapshot: update(node.snapshot) }]));
+    return { ...tree, nodes };
+}
+
+export function getUndoTarget(tree: HistoryTree): string | null {
+    return tree.nodes[tree.currentId].parentId;
+}
+
+/** The child visited most recently, so undo then redo comes back to the same branch. */
+export function getRedoTarget(tree: HistoryTree): string | null {
+    const children = getChildren(tree, tree.currentId);
+    if (children.length === 0) return null;
+    return children.reduce((latest, child) => child.visitedAt > latest.visitedAt ? child : latest).id;
+}
+
+/**
+ * Builds the tree a linear undo history stands for: the undo stack (oldest first), then the
+ * current state, then the redo stack (whose last entry is the next redo).
+ */
+export function historyTreeFromStacks(undoStack: AppStateSnapshot[], current: AppStateSnapshot, redoStack: AppStateSnapshot[]): HistoryTree {
+    const [first, ...rest] = [...undoStack, current, ...[...redoStack].reverse()];
+    let tree = createHistoryTree(first);
+    rest.forEach(snapshot => { tree = addHistoryNode(tree, snapshot); });
+    let currentId = tree.currentId;
+    for (let i = 0; i < redoStack.length; i++) currentId = tree.nodes[currentId].parentId!;
+    return moveToHistoryNode(tree, currentId);
+}
+
+/** What a snapshot shows on the canvas, for thumbnails. */
+export function getSnapshotImage({ outfitHistory, currentOutfitIndex, currentPoseId, activeBackground, activeLighting }: AppStateSnapshot): string | undefined {
+    const layer = outfitHistory[currentOutfitIndex];
+    if (!layer) return undefined;
+    return layer.sceneImages?.[currentPoseId]?.[getSceneKey({ background: activeBackground, lighting: activeLighting })]
+        ?? layer.poseImages[currentPoseId]
+        ?? getLayerBaseImage(layer);
+}
@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface NormalizeImageOptions {
+    /** The longest side of the result in pixels; larger images are scaled down to it. */
+    maxDimension: number;
+    /** JPEG quality, from 0 to 1. */
+    quality: number;
+}
+
+// JPEG segments that carry metadata: APP1 (EXIF, including the orientation, and XMP) and APP13 (IPTC).
+const JPEG_METADATA_MARKERS: ReadonlySet<number> = new Set([0xe1, 0xed]);
+const JPEG_START_OF_SCAN = 0xda;
+/** How much of a JPEG is read for its header segments; metadata comes well before the image data. */
+const JPEG_HEADER_BYTES = 256 * 1024;
+
+/** Whether a JPEG has metadata segments, i.e. anything re-encoding would have to strip or apply. */
+async function hasJpegMetadata(blob: Blob): Promise<boolean> {
+    const bytes = new Uint8Array(await blob.slice(0, JPEG_HEADER_BYTES).arrayBuffer());
+    let offset = 2; // After the start-of-image marker
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        if (marker === JPEG_START_OF_SCAN) return false;
+        if (JPEG_METADATA_MARKERS.has(marker)) return true;
+        offset += 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    }
+    // Header segments that run past what was read (or a malformed file): re-encode to be safe.
+    return true;
+}
+
+/**
+ * Re-encodes an image the way the model wants it: turned upright according to its EXIF
+ * orientation, no larger than `maxDimension`, as PNG (kept for PNGs, which may be transparent
+ * cutouts or masks) or JPEG (everything else, including HEIC and AVIF). Re-encoding drops all
+ * metadata. JPEGs that are small enough and have no metadata, such as generated images fed into
+ * the next edit, are returned as they are: re-encoding them would lose quality at every step.
+ * Works on the main thread and in workers alike, wherever `OffscreenCanvas` exists.
+ */
+export async function normalizeImage(blob: Blob, { maxDimension, quality }: NormalizeImageOptions): Promise<Blob> {
+    const bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+    try {
+        const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+        if (scale === 1 && blob.type === 'image/jpeg' && !(await hasJpegMetadata(blob))) return blob;
+        const width = Math.max(1, Math.round(bitmap.width * scale));
+        const height = Math.max(1, Math.round(bitmap.height * scale));
+        const canvas = new OffscreenCanvas(width, height);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Could not get canvas context.');
+
+        const type = blob.type === 'image/png' ? 'image/png' : 'image/jpeg';
+        if (type === 'image/jpeg') {
+            // JPEG has no transparency; without this, transparent areas would turn black.
+            ctx.fillStyle = '#fff';
+            ctx.fillRect(0, 0, width, height);
+        }
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(bitmap, 0, 0, width, height);
+        return await canvas.convertToBlob({ type, quality });
+    } finally {
+        bitmap.close();
+    }
+}
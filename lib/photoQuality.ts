@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- Local checks on a source photo, run before a model generation is spent on it ---
+
+export const PHOTO_ISSUES = ['lowResolution', 'notPortrait', 'blurry', 'tooDark', 'overexposed', 'fileTooSmall', 'fileTooLarge'] as const;
+export type PhotoIssue = typeof PHOTO_ISSUES[number];
+
+/** Shorter side, in pixels, below which a face and outfit are too small to make out. */
+const MIN_SHORT_SIDE = 512;
+/** Widest width-to-height ratio that still fits a standing person head to toe. */
+const MAX_ASPECT_RATIO = 0.85;
+// Heavily compressed photos come out small; very large files are slow to read and upload.
+const MIN_FILE_BYTES = 30 * 1024;
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+/** Longest side the photo is scaled to for the pixel checks, which keeps them fast and comparable. */
+const ANALYSIS_SIZE = 256;
+// Tuned on that scaled-down copy: below this variance of the Laplacian, edges are soft throughout.
+const MIN_SHARPNESS = 40;
+const MIN_MEAN_LUMINANCE = 55;
+// Overexposed means bright overall *and* largely blown out to white: a white studio wall alone is fine.
+const MAX_MEAN_LUMINANCE = 215;
+const MAX_CLIPPED_SHARE = 0.35;
+
+const getLuminance = (pixels: ImageData): Float32Array => {
+    const luminance = new Float32Array(pixels.width * pixels.height);
+    for (let i = 0; i < luminance.length; i++) {
+        const offset = i * 4;
+        luminance[i] = 0.299 * pixels.data[offset] + 0.587 * pixels.data[offset + 1] + 0.114 * pixels.data[offset + 2];
+    }
+    return luminance;
+};
+
+/** Variance of the 4-neighbour Laplacian, a common measure of how sharp an image's edges are. */
+const getSharpness = (luminance: Float32Array, width: number, height: number): number => {
+    let sum = 0;
+    let sumOfSquares = 0;
+    let count = 0;
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const i = y * width + x;
+            const laplacian = luminance[i - width] + luminance[i + width] + luminance[i - 1] + luminance[i + 1] - 4 * luminance[i];
+            sum += laplacian;
+            sumOfSquares += laplacian * laplacian;
+            count++;
+        }
+    }
+    if (count === 0) return Infinity;
+    const mean = sum / count;
+    return sumOfSquares / count - mean * mean;
+};
+
+/**
+ * What's likely to make a poor model out of this photo, in the order of `PHOTO_ISSUES`. Photos
+ * the browser can't decode are only checked for file size.
+ */
+export async function checkPhotoQuality(file: Blob): Promise<PhotoIssue[]> {
+    const issues = new Set<PhotoIssue>();
+    if (file.size < MIN_FILE_BYTES) issues.add('fileTooSmall');
+    if (file.size > MAX_FILE_BYTES) issues.add('fileTooLarge');
+
+    let bitmap: ImageBitmap;
+    try {
+        bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch {
+        return PHOTO_ISSUES.filter(issue => issues.has(issue));
+    }
+
+    try {
+        const { width, height } = bitmap;
+        if (Math.min(width, height) < MIN_SHORT_SIDE) issues.add('lowResolution');
+        if (width / height > MAX_ASPECT_RATIO) issues.add('notPortrait');
+
+        const scale = Math.min(1, ANALYSIS_SIZE / Math.max(width, height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(width * scale));
+        canvas.height = Math.max(1, Math.round(height * scale));
+        const ctx = canvas.getContext('2d', { willReadFrequently: true });
+        if (ctx) {
+            ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+            const luminance = getLuminance(ctx.getImageData(0, 0, canvas.width, canvas.height));
+            const mean = luminance.reduce((sum, value) => sum + value, 0) / luminance.length;
+            const clippedShare = luminance.filter(value => value >= 250).length / luminance.length;
+            if (getSharpness(luminance, canvas.width, canvas.height) < MIN_SHARPNESS) issues.add('blurry');
+            if (mean < MIN_MEAN_LUMINANCE) issues.add('tooDark');
+            if (mean > MAX_MEAN_LUMINANCE && clippedShare > MAX_CLIPPED_SHARE) issues.add('overexposed');
+        }
+    } finally {
+        bitmap.close();
+    }
+    return PHOTO_ISSUES.filter(issue => issues.has(issue));
+}
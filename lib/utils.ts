@@ -4,11 +4,75 @@
 */
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { GenerationError } from "../services/errors.ts";
  
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+/** Loads an image URL (data:, blob: or CORS-enabled http) into a PNG `File` the services can upload. */
+export function urlToFile(url: string, filename: string): Promise<File> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.setAttribute('crossOrigin', 'anonymous');
+
+        image.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = image.naturalWidth;
+            canvas.height = image.naturalHeight;
+
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                return reject(new Error('Could not get canvas context.'));
+            }
+            ctx.drawImage(image, 0, 0);
+
+            canvas.toBlob((blob) => {
+                if (!blob) {
+                    return reject(new Error('Canvas toBlob failed.'));
+                }
+                const mimeType = blob.type || 'image/png';
+                const file = new File([blob], filename, { type: mimeType });
+                resolve(file);
+            }, 'image/png');
+        };
+
+        image.onerror = (error) => {
+            reject(new Error(`Could not load image from URL for canvas conversion. Error: ${error}`));
+        };
+
+        image.src = url;
+    });
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+const NAME_FROM_DESCRIPTION_LENGTH = 24;
+
+/** A name for something saved without one: the start of its description, shortened if need be. */
+export function nameFromDescription(description: string): string {
+    return description.length > NAME_FROM_DESCRIPTION_LENGTH
+        ? `${description.slice(0, NAME_FROM_DESCRIPTION_LENGTH)}…`
+        : description;
+}
+
+/** Deep-copies plain data, passing every string through `mapString`. */
+export function mapStrings(value: unknown, mapString: (value: string) => string): unknown {
+    if (typeof value === 'string') return mapString(value);
+    if (Array.isArray(value)) return value.map(item => mapStrings(item, mapString));
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, mapString)]));
+    }
+    return value;
+}
+
 export function getFriendlyErrorMessage(error: unknown, context: string): string {
     let rawMessage = 'An unknown error occurred.';
     if (error instanceof Error) {
@@ -19,7 +83,9 @@ export function getFriendlyErrorMessage(error: unknown, context: string): string
         rawMessage = String(error);
     }
 
-    if (rawMessage.includes("process is not defined") || rawMessage.includes("API_KEY") || rawMessage.includes("AI Service initialization failed")) {
+    const kind = error instanceof GenerationError ? error.kind : null;
+
+    if (kind === 'config' || rawMessage.includes("process is not defined") || rawMessage.includes("API_KEY") || rawMessage.includes("AI Service initialization failed")) {
         return "Configuration Error: The Gemini API key is missing. In a static deployment like this, `process.env.API_KEY` isn't automatically available in the browser. You need to configure your hosting provider (e.g., Netlify) to inject this variable into your client-side code, or use a backend function to proxy the API calls.";
     }
 
@@ -39,6 +105,17 @@ export function getFriendlyErrorMessage(error: unknown, context: string): string
         // Generic fallback for any "Unsupported MIME type" error
         return `Unsupported file format. Please upload an image format like PNG, JPEG, or WEBP.`;
     }
+
+    switch (kind) {
+        case 'quota':
+            return `${context}. The image service is busy or your usage limit has been reached. Please wait a minute and try again.`;
+        case 'network':
+            return `${context}. Could not reach the image service. Please check your connection and try again.`;
+        case 'safety':
+            return `${context}. The request was blocked by the model's safety filters. Try a different image or instruction.`;
+        case 'invalidInput':
+            return `${context}. The image or instruction could not be processed. ${rawMessage}`;
+    }
     
     return `${context}. ${rawMessage}`;
 }
\ No newline at end of file
@@ -8,6 +8,7 @@ const en = {
     title: "Create Your Model for Any Look.",
     subtitle: "Ever wondered how an outfit would look on you? Stop guessing. Upload a photo and see for yourself. Our AI creates your personal model, ready to try on anything.",
     upload: "Upload Photo",
+    useCamera: "Take a Photo",
     tip: "Tip: Use a clear, full-body photo for best results.",
     error: {
         fileType: "Please select an image file.",
@@ -20,7 +21,40 @@ const en = {
         failed: "Generation Failed",
         tryAgain: "Try Again",
         newPhoto: "Use a Different Photo",
+        regenerate: "Regenerate",
+        applyOptions: "Create With New Options",
+        optionsChanged: "The options have changed since this model was made. Create it again to continue with them.",
         continue: "Continue",
+    },
+    resume: {
+        title: "Resume last session",
+        savedAt: "Saved",
+        resume: "Resume",
+        discard: "Discard",
+    },
+    quality: {
+        title: "This photo may give a poor model",
+        description: "We checked the photo before generating. Fixing these usually gives a much better model.",
+        chooseAnother: "Choose Another Photo",
+        useAnyway: "Use This Photo Anyway",
+        issues: {
+            lowResolution: "The resolution is low.",
+            notPortrait: "The photo is wider than a full-body shot.",
+            blurry: "The photo looks blurry.",
+            tooDark: "The photo is too dark.",
+            overexposed: "The photo is overexposed.",
+            fileTooSmall: "The file is very small, so it is probably heavily compressed.",
+            fileTooLarge: "The file is very large.",
+        },
+        fixes: {
+            lowResolution: "Use the original photo rather than a screenshot or thumbnail, at least 512 pixels on the shorter side.",
+            notPortrait: "Use a portrait photo that shows you from head to toe, or crop it to a tall frame.",
+            blurry: "Hold the camera steady or lean it on something, and tap to focus on yourself.",
+            tooDark: "Face a window or turn on more lights, and avoid standing with a bright light behind you.",
+            overexposed: "Move out of direct sunlight or away from the flash so your clothes keep their detail.",
+            fileTooSmall: "Send the photo from your camera roll directly instead of one saved from a chat app.",
+            fileTooLarge: "It will still work, but uploading may be slow; a smaller export of the same photo is enough.",
+        },
     }
   },
   canvas: {
@@ -33,22 +67,93 @@ const en = {
       undo: "Undo",
       redo: "Redo",
       crop: "Crop",
+      regenerateAnyway: "Regenerate anyway",
+      candidates: "Candidates per edit",
+      selectArea: "Select area to edit",
+      selectAreaHint: "Show a garment layer in the first pose, without a scene, to select an area",
+      areaSelected: "Area selected",
+      clearArea: "Clear selected area",
+      regenerateAnywayHint: "For the next edit, ask for new images even when the same edit was made before, instead of reusing the saved result",
+      lighting: "Lighting",
+      background: "Background",
+      applyScene: "Apply",
+      customScene: "Custom...",
+      customPose: "Custom...",
+      generateAllPoses: "Generate All Poses",
+      stopGeneratingPoses: "Stop",
+      poseQueued: "Queued",
+      poseRunning: "Generating",
+      poseFailed: "Failed, select to retry",
+  },
+  poseLibrary: {
+      title: "Custom Pose",
+      instruction: "Describe the pose",
+      instructionPlaceholder: "e.g. sitting on a stool, one leg crossed",
+      referenceImage: "Pose reference photo (optional)",
+      uploadImage: "Upload a photo",
+      removeImage: "Remove photo",
+      name: "Pose name",
+      namePlaceholder: "Named after the description if left empty",
+      untitled: "Custom pose",
+      save: "Save Pose",
+      saveAndTry: "Save & Try",
+      delete: "Delete",
+      close: "Close",
+  },
+  scenePresets: {
+      title: "Custom Scene",
+      description: "Description",
+      backgroundPlaceholder: "e.g. a rooftop terrace in Paris at dusk",
+      lightingPlaceholder: "e.g. neon signs casting pink and blue light",
+      referenceImage: "Reference background (optional)",
+      uploadImage: "Upload a photo",
+      removeImage: "Remove photo",
+      name: "Preset name",
+      namePlaceholder: "Named after the description if left empty",
+      untitled: "Custom background",
+      save: "Save Preset",
+      saveAndApply: "Save & Apply",
+      delete: "Delete",
+      close: "Close",
   },
   outfitStack: {
       title: "Outfit Stack",
       baseModel: "Base Model",
+      generating: "Generating in the background",
+      maskApplies: "Only inside the selected area",
       empty: "Your stacked items will appear here. Select an item from the wardrobe below.",
       remove: "Remove",
       changeColor: "Change color for",
       changeColorTo: "Change color to",
+      changeFabric: "Change fabric for",
+      swap: "Swap",
+      swapTitle: "Swap with",
+      swapEmpty: "No other garments yet. Upload one to swap it in.",
+      dragToReorder: "Drag to reorder",
   },
   wardrobe: {
       title: "Wardrobe",
-      tops: "Tops",
-      accessories: "Accessories",
+      categories: {
+          top: "Tops",
+          bottom: "Bottoms",
+          dress: "Dresses",
+          outerwear: "Outerwear",
+          shoes: "Shoes",
+          bag: "Bags",
+          headwear: "Headwear",
+          accessory: "Accessories",
+      },
       upload: "Upload",
       empty: "Your uploaded garments will appear here.",
       select: "Select",
+      manage: {
+          title: "Manage wardrobe",
+          done: "Done managing",
+          rename: "Garment name",
+          category: "Category",
+          delete: "Delete",
+          emptyCategory: "No garments in this category.",
+      },
       error: {
           load: "Failed to load wardrobe item. This is often a CORS issue. Check the developer console for details."
       }
@@ -64,8 +169,12 @@ const en = {
           applyGarment: "Failed to apply garment",
           changePose: "Failed to change pose",
           changeColor: "Failed to change color",
+          changeFabric: "Failed to change fabric",
           changeBackground: "Failed to change background",
           changeLighting: "Failed to change lighting",
+          removeLayer: "Failed to remove garment",
+          swapLayer: "Failed to swap garment",
+          reorderLayers: "Failed to reorder garments",
           lookbook: {
               addGarment: "Add at least one garment to create a lookbook.",
               notEnough: "Not enough outfits to generate a lookbook.",
@@ -76,9 +185,12 @@ const en = {
           adding: "Adding",
           posing: "Changing pose...",
           coloring: "Changing color to",
+          fabric: "Applying fabric...",
           background: "Changing background...",
           lighting: "Adjusting lighting...",
           lookbook: "Generating your lookbook...",
+          replaying: "Re-applying",
+          cancel: "Cancel",
       },
       lookbook: {
           title: "Your Lookbook",
@@ -129,6 +241,176 @@ const en = {
   cropModal: {
     title: "Crop Image",
     apply: "Apply Crop",
+  },
+  maskEditor: {
+    brush: "Brush",
+    lasso: "Lasso",
+    eraser: "Eraser",
+    clear: "Clear selection",
+    done: "Done",
+    brushSize: "Size",
+    lassoHint: "Draw around the area to select it",
+  },
+  candidates: {
+    title: "Pick the Best Result",
+    description: "The others are kept as alternates on the outfit layer.",
+    candidate: "Candidate",
+    choose: "Use this one",
+    discard: "Discard all",
+  },
+  jobs: {
+    title: "Jobs",
+    toggle: "Show background jobs",
+    empty: "No jobs yet.",
+    queued: "Queued",
+    running: "Running",
+    done: "Done",
+    failed: "Failed",
+    cancel: "Cancel job",
+    dismiss: "Dismiss",
+    clearFinished: "Clear finished",
+  },
+  colorPicker: {
+    presets: "Presets",
+    recent: "Recent",
+    custom: "Custom color",
+    hex: "Hex code",
+    eyedropper: "Pick from a photo",
+    eyedropperHint: "Click the photo to take its color.",
+    samplePhoto: "Photo to pick a color from",
+    removePhoto: "Remove photo",
+    finish: "Finish",
+    finishes: {
+      matte: "Matte",
+      glossy: "Glossy",
+      metallic: "Metallic",
+      satin: "Satin",
+      heathered: "Heathered",
+    },
+    apply: "Apply color",
+  },
+  fabricPicker: {
+    title: "Fabric or pattern",
+    upload: "Upload a swatch: denim, plaid, a print...",
+    swatch: "Fabric swatch",
+    remove: "Remove swatch",
+    notePlaceholder: "Optional, e.g. 'small checks'",
+    apply: "Apply fabric",
+  },
+  history: {
+    title: "History",
+    toggle: "Show edit history",
+    description: "Every version you made. Going back to one keeps the others, and new edits start a branch.",
+    start: "Model",
+    garmentCount: "Garments:",
+    goTo: "Go back to this version",
+    current: "Current version",
+  },
+  camera: {
+    title: "Take a Photo",
+    guide: "Stand back until your whole body fits inside the outline, head to toe.",
+    timer: "Timer",
+    noTimer: "Off",
+    capture: "Take Photo",
+    cancelTimer: "Cancel Timer",
+    retake: "Retake",
+    usePhoto: "Use Photo",
+    captured: "Captured photo",
+    error: {
+        permissionDenied: "Camera access was blocked. Allow it in your browser's site settings, or upload a photo instead.",
+        unavailable: "No camera is available. Connect one, or upload a photo instead.",
+    },
+  },
+  modelOptions: {
+    title: "Model Options",
+    background: "Background",
+    backgrounds: {
+        original: "Keep Original",
+        studio: "Studio",
+        scene: "Describe a Scene",
+    },
+    scenePlaceholder: "e.g., a sunny rooftop terrace",
+    pose: "Starting Pose",
+    poses: {
+        relaxed: "Relaxed",
+        handsOnHips: "Hands on Hips",
+        threeQuarterTurn: "3/4 Turn",
+        walking: "Walking",
+    },
+    framing: "Framing",
+    framings: {
+        fullBody: "Full Body",
+        threeQuarter: "Three-Quarter",
+    },
+  },
+  colorNames: {
+    black: "black",
+    charcoal: "charcoal",
+    "dark gray": "dark gray",
+    gray: "gray",
+    "light gray": "light gray",
+    silver: "silver",
+    white: "white",
+    "off-white": "off-white",
+    ivory: "ivory",
+    cream: "cream",
+    beige: "beige",
+    sand: "sand",
+    tan: "tan",
+    camel: "camel",
+    khaki: "khaki",
+    taupe: "taupe",
+    brown: "brown",
+    "chocolate brown": "chocolate brown",
+    rust: "rust",
+    terracotta: "terracotta",
+    burgundy: "burgundy",
+    maroon: "maroon",
+    "wine red": "wine red",
+    red: "red",
+    crimson: "crimson",
+    coral: "coral",
+    salmon: "salmon",
+    orange: "orange",
+    "burnt orange": "burnt orange",
+    peach: "peach",
+    "mustard yellow": "mustard yellow",
+    gold: "gold",
+    yellow: "yellow",
+    "lemon yellow": "lemon yellow",
+    "olive green": "olive green",
+    "khaki green": "khaki green",
+    "sage green": "sage green",
+    "mint green": "mint green",
+    "lime green": "lime green",
+    green: "green",
+    "emerald green": "emerald green",
+    "forest green": "forest green",
+    teal: "teal",
+    turquoise: "turquoise",
+    aqua: "aqua",
+    "sky blue": "sky blue",
+    "light blue": "light blue",
+    "powder blue": "powder blue",
+    "denim blue": "denim blue",
+    blue: "blue",
+    "royal blue": "royal blue",
+    "cobalt blue": "cobalt blue",
+    "navy blue": "navy blue",
+    "midnight blue": "midnight blue",
+    indigo: "indigo",
+    purple: "purple",
+    violet: "violet",
+    lavender: "lavender",
+    lilac: "lilac",
+    plum: "plum",
+    magenta: "magenta",
+    fuchsia: "fuchsia",
+    "hot pink": "hot pink",
+    pink: "pink",
+    "blush pink": "blush pink",
+    "dusty rose": "dusty rose",
+    mauve: "mauve",
   }
 };
 
@@ -137,6 +419,7 @@ const zh: typeof en = {
     title: "为任何造型创建您的模特。",
     subtitle: "有没有想过一套衣服穿在你身上会是什么样子？别再猜了。上传一张照片，亲眼看看。我们的AI会创建您的个人模特，随时准备试穿任何服装。",
     upload: "上传照片",
+    useCamera: "拍摄照片",
     tip: "提示：为获得最佳效果，请使用清晰的全身照片。",
      error: {
         fileType: "请选择一个图片文件。",
@@ -149,7 +432,40 @@ const zh: typeof en = {
         failed: "生成失败",
         tryAgain: "再试一次",
         newPhoto: "使用另一张照片",
+        regenerate: "重新生成",
+        applyOptions: "按新选项生成",
+        optionsChanged: "生成此模特后选项已更改。请重新生成，以便使用新选项继续。",
         continue: "继续",
+    },
+    resume: {
+        title: "继续上次的会话",
+        savedAt: "保存于",
+        resume: "继续",
+        discard: "丢弃",
+    },
+    quality: {
+        title: "这张照片可能生成效果不佳的模特",
+        description: "我们在生成前检查了这张照片。解决以下问题通常能得到好得多的模特。",
+        chooseAnother: "选择其他照片",
+        useAnyway: "仍然使用这张照片",
+        issues: {
+            lowResolution: "分辨率偏低。",
+            notPortrait: "照片比全身照更宽。",
+            blurry: "照片看起来模糊。",
+            tooDark: "照片太暗。",
+            overexposed: "照片曝光过度。",
+            fileTooSmall: "文件非常小，可能经过了大幅压缩。",
+            fileTooLarge: "文件非常大。",
+        },
+        fixes: {
+            lowResolution: "请使用原图而非截图或缩略图，短边至少 512 像素。",
+            notPortrait: "请使用从头到脚拍摄的竖版照片，或将其裁剪为竖长画面。",
+            blurry: "请稳住相机或将其靠在物体上，并点击对焦在你身上。",
+            tooDark: "请面向窗户或打开更多灯光，避免背对强光站立。",
+            overexposed: "请避开直射阳光或闪光灯，让衣服保留细节。",
+            fileTooSmall: "请直接从相册发送照片，而不是使用从聊天应用保存的图片。",
+            fileTooLarge: "仍可使用，但上传可能较慢；导出同一张照片的较小版本即可。",
+        },
     }
   },
   canvas: {
@@ -162,22 +478,93 @@ const zh: typeof en = {
       undo: "撤销",
       redo: "重做",
       crop: "裁剪",
+      regenerateAnyway: "强制重新生成",
+      candidates: "每次编辑的候选数",
+      selectArea: "选择编辑区域",
+      selectAreaHint: "请在第一个姿势且未应用场景时显示服装图层，再选择区域",
+      areaSelected: "已选择区域",
+      clearArea: "清除所选区域",
+      regenerateAnywayHint: "下一次编辑时，即使之前做过相同的编辑，也重新生成图片，而不是使用已保存的结果",
+      lighting: "灯光",
+      background: "背景",
+      applyScene: "应用",
+      customScene: "自定义...",
+      customPose: "自定义...",
+      generateAllPoses: "生成全部姿势",
+      stopGeneratingPoses: "停止",
+      poseQueued: "排队中",
+      poseRunning: "生成中",
+      poseFailed: "失败，点击重试",
+  },
+  poseLibrary: {
+      title: "自定义姿势",
+      instruction: "描述姿势",
+      instructionPlaceholder: "例如：坐在高脚凳上，翘着二郎腿",
+      referenceImage: "姿势参考照片（可选）",
+      uploadImage: "上传照片",
+      removeImage: "移除照片",
+      name: "姿势名称",
+      namePlaceholder: "留空则以描述命名",
+      untitled: "自定义姿势",
+      save: "保存姿势",
+      saveAndTry: "保存并试用",
+      delete: "删除",
+      close: "关闭",
+  },
+  scenePresets: {
+      title: "自定义场景",
+      description: "描述",
+      backgroundPlaceholder: "例如：黄昏时分的巴黎屋顶露台",
+      lightingPlaceholder: "例如：霓虹灯投下的粉蓝色光线",
+      referenceImage: "参考背景（可选）",
+      uploadImage: "上传照片",
+      removeImage: "移除照片",
+      name: "预设名称",
+      namePlaceholder: "留空则以描述命名",
+      untitled: "自定义背景",
+      save: "保存预设",
+      saveAndApply: "保存并应用",
+      delete: "删除",
+      close: "关闭",
   },
   outfitStack: {
       title: "服装搭配",
       baseModel: "基础模特",
+      generating: "正在后台生成",
+      maskApplies: "仅在所选区域内",
       empty: "您搭配的物品将显示在这里。请从下面的衣柜中选择一件物品。",
       remove: "移除",
       changeColor: "更改颜色",
       changeColorTo: "将颜色更改为",
+      changeFabric: "更换面料",
+      swap: "替换",
+      swapTitle: "替换为",
+      swapEmpty: "还没有其他服装。上传一件来替换。",
+      dragToReorder: "拖动以重新排序",
   },
   wardrobe: {
       title: "衣柜",
-      tops: "上衣",
-      accessories: "配饰",
+      categories: {
+          top: "上衣",
+          bottom: "下装",
+          dress: "连衣裙",
+          outerwear: "外套",
+          shoes: "鞋履",
+          bag: "包袋",
+          headwear: "帽饰",
+          accessory: "配饰",
+      },
       upload: "上传",
       empty: "您上传的服装将显示在这里。",
       select: "选择",
+      manage: {
+          title: "管理衣柜",
+          done: "完成管理",
+          rename: "服装名称",
+          category: "类别",
+          delete: "删除",
+          emptyCategory: "此类别中没有服装。",
+      },
       error: {
           load: "加载衣柜物品失败。这通常是CORS问题。请检查开发者控制台以获取详细信息。"
       }
@@ -193,8 +580,12 @@ const zh: typeof en = {
           applyGarment: "应用服装失败",
           changePose: "更改姿势失败",
           changeColor: "更改颜色失败",
+          changeFabric: "更换面料失败",
           changeBackground: "更改背景失败",
           changeLighting: "更改灯光失败",
+          removeLayer: "移除服装失败",
+          swapLayer: "替换服装失败",
+          reorderLayers: "重新排序服装失败",
           lookbook: {
               addGarment: "至少添加一件服装才能创建造型集。",
               notEnough: "没有足够的服装来生成造型集。",
@@ -205,9 +596,12 @@ const zh: typeof en = {
           adding: "正在添加",
           posing: "正在更改姿势...",
           coloring: "正在将颜色更改为",
+          fabric: "正在应用面料...",
           background: "正在更改背景...",
           lighting: "正在调整灯光...",
           lookbook: "正在生成您的造型集...",
+          replaying: "正在重新应用",
+          cancel: "取消",
       },
       lookbook: {
           title: "您的造型集",
@@ -258,6 +652,176 @@ const zh: typeof en = {
   cropModal: {
     title: "裁剪图片",
     apply: "应用裁剪",
+  },
+  maskEditor: {
+    brush: "画笔",
+    lasso: "套索",
+    eraser: "橡皮擦",
+    clear: "清除选区",
+    done: "完成",
+    brushSize: "大小",
+    lassoHint: "围绕要选择的区域绘制",
+  },
+  candidates: {
+    title: "选择最佳结果",
+    description: "其余结果会作为备选保存在该服装图层上。",
+    candidate: "候选",
+    choose: "使用这张",
+    discard: "全部放弃",
+  },
+  jobs: {
+    title: "任务",
+    toggle: "显示后台任务",
+    empty: "暂无任务。",
+    queued: "排队中",
+    running: "进行中",
+    done: "已完成",
+    failed: "失败",
+    cancel: "取消任务",
+    dismiss: "移除",
+    clearFinished: "清除已完成",
+  },
+  colorPicker: {
+    presets: "预设",
+    recent: "最近使用",
+    custom: "自定义颜色",
+    hex: "十六进制色值",
+    eyedropper: "从照片取色",
+    eyedropperHint: "点击照片以选取该处颜色。",
+    samplePhoto: "用于取色的照片",
+    removePhoto: "移除照片",
+    finish: "质感",
+    finishes: {
+      matte: "哑光",
+      glossy: "亮面",
+      metallic: "金属",
+      satin: "缎面",
+      heathered: "麻灰",
+    },
+    apply: "应用颜色",
+  },
+  fabricPicker: {
+    title: "面料或图案",
+    upload: "上传面料样本：牛仔、格纹、印花……",
+    swatch: "面料样本",
+    remove: "移除样本",
+    notePlaceholder: "可选，例如“小格子”",
+    apply: "应用面料",
+  },
+  history: {
+    title: "历史",
+    toggle: "显示编辑历史",
+    description: "你创建的每个版本。返回某个版本不会丢失其他版本，新的编辑会开出一个分支。",
+    start: "模特",
+    garmentCount: "单品：",
+    goTo: "返回此版本",
+    current: "当前版本",
+  },
+  camera: {
+    title: "拍摄照片",
+    guide: "请后退，直到从头到脚的全身都在轮廓内。",
+    timer: "定时",
+    noTimer: "关闭",
+    capture: "拍照",
+    cancelTimer: "取消定时",
+    retake: "重拍",
+    usePhoto: "使用照片",
+    captured: "拍摄的照片",
+    error: {
+        permissionDenied: "摄像头访问被阻止。请在浏览器的网站设置中允许访问，或改为上传照片。",
+        unavailable: "没有可用的摄像头。请连接摄像头，或改为上传照片。",
+    },
+  },
+  modelOptions: {
+    title: "模特选项",
+    background: "背景",
+    backgrounds: {
+        original: "保留原背景",
+        studio: "影棚",
+        scene: "描述场景",
+    },
+    scenePlaceholder: "例如：阳光明媚的屋顶露台",
+    pose: "初始姿势",
+    poses: {
+        relaxed: "放松站姿",
+        handsOnHips: "双手叉腰",
+        threeQuarterTurn: "3/4 侧身",
+        walking: "行走",
+    },
+    framing: "取景",
+    framings: {
+        fullBody: "全身",
+        threeQuarter: "七分身",
+    },
+  },
+  colorNames: {
+    black: "黑色",
+    charcoal: "炭灰色",
+    "dark gray": "深灰色",
+    gray: "灰色",
+    "light gray": "浅灰色",
+    silver: "银色",
+    white: "白色",
+    "off-white": "米白色",
+    ivory: "象牙白",
+    cream: "奶油色",
+    beige: "米色",
+    sand: "沙色",
+    tan: "棕褐色",
+    camel: "驼色",
+    khaki: "卡其色",
+    taupe: "灰褐色",
+    brown: "棕色",
+    "chocolate brown": "巧克力棕",
+    rust: "铁锈色",
+    terracotta: "陶土色",
+    burgundy: "勃艮第红",
+    maroon: "栗色",
+    "wine red": "酒红色",
+    red: "红色",
+    crimson: "深红色",
+    coral: "珊瑚色",
+    salmon: "三文鱼色",
+    orange: "橙色",
+    "burnt orange": "焦橙色",
+    peach: "桃色",
+    "mustard yellow": "芥末黄",
+    gold: "金色",
+    yellow: "黄色",
+    "lemon yellow": "柠檬黄",
+    "olive green": "橄榄绿",
+    "khaki green": "卡其绿",
+    "sage green": "鼠尾草绿",
+    "mint green": "薄荷绿",
+    "lime green": "青柠绿",
+    green: "绿色",
+    "emerald green": "祖母绿",
+    "forest green": "森林绿",
+    teal: "水鸭色",
+    turquoise: "绿松石色",
+    aqua: "水蓝色",
+    "sky blue": "天蓝色",
+    "light blue": "浅蓝色",
+    "powder blue": "粉蓝色",
+    "denim blue": "牛仔蓝",
+    blue: "蓝色",
+    "royal blue": "宝蓝色",
+    "cobalt blue": "钴蓝色",
+    "navy blue": "藏青色",
+    "midnight blue": "午夜蓝",
+    indigo: "靛蓝色",
+    purple: "紫色",
+    violet: "紫罗兰色",
+    lavender: "薰衣草紫",
+    lilac: "丁香紫",
+    plum: "梅子色",
+    magenta: "品红色",
+    fuchsia: "紫红色",
+    "hot pink": "亮粉色",
+    pink: "粉色",
+    "blush pink": "腮红粉",
+    "dusty rose": "灰玫瑰色",
+    mauve: "淡紫色",
   }
 };
 
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- Shared IndexedDB access for everything the app persists locally ---
+
+const DB_NAME = 'ez-stylist';
+const DB_VERSION = 7;
+
+export const STORES = {
+    session: 'session',
+    sessionImages: 'sessionImages',
+    wardrobe: 'wardrobe',
+    scenePresets: 'scenePresets',
+    poses: 'poses',
+    results: 'results',
+    resultMeta: 'resultMeta',
+    recentColors: 'recentColors',
+    spilledImages: 'spilledImages',
+} as const;
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/** Opens (and on first use, creates or upgrades) the app database. The connection is shared. */
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available in this browser.'));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            for (const store of Object.values(STORES)) {
+                if (!db.objectStoreNames.contains(store)) {
+                    db.createObjectStore(store);
+                }
+            }
+        };
+        request.onsuccess = () => {
+            const db = request.result;
+            // Step aside when another tab needs to upgrade the schema.
+            db.onversionchange = () => {
+                db.close();
+                dbPromise = null;
+            };
+            resolve(db);
+        };
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('The database is open in another tab with an older version.'));
+    });
+    // Let a later call retry if opening failed (e.g. the user closed the blocking tab).
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted.'));
+    });
+};
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Why a generation failed. `quota` and `network` are transient and retried
+ * automatically; the rest need the user to change something first.
+ */
+export type GenerationErrorKind =
+    | 'quota'
+    | 'safety'
+    | 'noImage'
+    | 'invalidInput'
+    | 'network'
+    | 'config';
+
+const TRANSIENT_KINDS: ReadonlySet<GenerationErrorKind> = new Set(['quota', 'network']);
+
+export class GenerationError extends Error {
+    readonly kind: GenerationErrorKind;
+    readonly status?: number;
+
+    constructor(kind: GenerationErrorKind, message: string, options?: { status?: number; cause?: unknown }) {
+        super(message, { cause: options?.cause });
+        this.name = 'GenerationError';
+        this.kind = kind;
+        this.status = options?.status;
+    }
+
+    get isTransient(): boolean {
+        return TRANSIENT_KINDS.has(this.kind);
+    }
+}
+
+export const isAbortError = (error: unknown): boolean =>
+    error instanceof DOMException && error.name === 'AbortError';
+
+const kindFromStatus = (status: number): GenerationErrorKind | null => {
+    if (status === 429) return 'quota';
+    if (status === 401 || status === 403) return 'config';
+    if (status === 408 || status >= 500) return 'network';
+    if (status >= 400) return 'invalidInput';
+    return null;
+};
+
+const kindFromMessage = (message: string): GenerationErrorKind | null => {
+    if (/RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return 'quota';
+    if (/API_KEY|API key|initialization failed/i.test(message)) return 'config';
+    if (/Unsupported MIME type|INVALID_ARGUMENT|Invalid data URL|MIME type from data URL/i.test(message)) return 'invalidInput';
+    if (/Failed to fetch|NetworkError|network|UNAVAILABLE|DEADLINE_EXCEEDED|ECONNRESET|timed? ?out/i.test(message)) return 'network';
+    return null;
+};
+
+/**
+ * Maps anything a provider might throw (SDK `ApiError`s carry an HTTP
+ * `status`, `fetch` throws a `TypeError`) onto a `GenerationError`.
+ * Unrecognised errors are reported as `noImage`, the generic "the model
+ * didn't give us a picture" case.
+ */
+export const classifyError = (error: unknown): GenerationError => {
+    if (error instanceof GenerationError) return error;
+
+    const message = error instanceof Error ? error.message : String(error);
+    const status = typeof (error as { status?: unknown })?.status === 'number'
+        ? (error as { status: number }).status
+        : undefined;
+
+    const kind = (status !== undefined ? kindFromStatus(status) : null)
+        ?? kindFromMessage(message)
+        ?? (error instanceof TypeError ? 'network' : 'noImage');
+
+    return new GenerationError(kind, message, { status, cause: error });
+};
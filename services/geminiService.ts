@@ -3,238 +3,421 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI, GenerateContentResponse, Modality } from "@google/genai";
-import { WardrobeItem } from "../types.ts";
-
-// --- SDK Initialization with Error Handling (Lazy Initialization) ---
-let ai: GoogleGenAI | null = null;
-let initializationError: Error | null = null;
-
-/**
- * A helper function to initialize the AI client on first use.
- * This lazy initialization prevents the app from crashing on load if the API key is missing.
- * Throws a detailed error if initialization fails.
- */
-const getInitializedAI = (): GoogleGenAI => {
-    // If it's already initialized successfully, return it.
-    if (ai) {
-        return ai;
-    }
-    // If we already tried to initialize and it failed, throw the stored error
-    // to avoid re-running the failing logic.
-    if (initializationError) {
-        throw new Error(`AI Service initialization failed: ${initializationError.message}`);
-    }
-
-    try {
-        // This code assumes `process.env.API_KEY` is available in the browser context.
-        // In a build-less setup, this requires manual injection or a specific hosting feature.
-        // In services/geminiService.ts
-const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-if (!apiKey) {
-    throw new Error("VITE_GEMINI_API_KEY environment variable not found. Please configure it in your deployment settings.");
-}
-ai = new GoogleGenAI({ apiKey: apiKey });
-        return ai;
-    } catch (e) {
-        initializationError = e instanceof Error ? e : new Error(String(e));
-        console.error("Fatal Error: GoogleGenAI failed to initialize.", initializationError);
-        throw new Error(`AI Service initialization failed: ${initializationError.message}`);
-    }
-};
-
+import { DEFAULT_MODEL_CREATION_OPTIONS, GarmentColor, ModelBackground, ModelCreationOptions, ModelFraming, ModelPose, WardrobeCategory, WardrobeItem } from "../types.ts";
+import { describeGarmentColor } from "../lib/colors.ts";
+import { getImageProvider, ImageGenerationRequest, ImageInput } from "./providers/index.ts";
+import { withRetry } from "./retry.ts";
+import { GenerationError } from "./errors.ts";
+import { getCachedResult, getResultCacheKey, putCachedResult } from "./resultCache.ts";
+import { createImageHold, releaseImages, storeImage } from "./imageStore.ts";
+import { normalizeForUpload } from "./imageNormalizer.ts";
 
 // --- Helper Functions ---
 
-const fileToPart = async (file: File) => {
+/** Reads an image into a part, normalized for upload first (see imageNormalizer.ts). */
+const fileToPart = async (file: Blob): Promise<ImageInput> => {
+    const normalized = await normalizeForUpload(file);
     const dataUrl = await new Promise<string>((resolve, reject) => {
         const reader = new FileReader();
-        reader.readAsDataURL(file);
+        reader.readAsDataURL(normalized);
         reader.onload = () => resolve(reader.result as string);
         reader.onerror = error => reject(error);
     });
-    const { mimeType, data } = dataUrlToParts(dataUrl);
-    return { inlineData: { mimeType, data } };
+    return dataUrlToParts(dataUrl);
 };
 
-const dataUrlToParts = (dataUrl: string) => {
+const dataUrlToParts = (dataUrl: string): ImageInput => {
     const arr = dataUrl.split(',');
-    if (arr.length < 2) throw new Error("Invalid data URL");
+    if (arr.length < 2) throw new GenerationError('invalidInput', "Invalid data URL");
     const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
+    if (!mimeMatch || !mimeMatch[1]) throw new GenerationError('invalidInput', "Could not parse MIME type from data URL");
     return { mimeType: mimeMatch[1], data: arr[1] };
 }
 
-const dataUrlToPart = (dataUrl: string) => {
-    const { mimeType, data } = dataUrlToParts(dataUrl);
-    return { inlineData: { mimeType, data } };
+/** Reads any image URL the browser can fetch (data:, blob:, same-origin) into a normalized part. */
+const urlToPart = async (url: string): Promise<ImageInput> => {
+    const response = await fetch(url);
+    if (!response.ok) throw new GenerationError('invalidInput', `Could not read image (${response.status})`);
+    return fileToPart(await response.blob());
+};
+
+export interface GenerateOptions {
+    signal?: AbortSignal;
+    /** Ask for a new image even if an identical request was answered before ("regenerate anyway"). */
+    skipCache?: boolean;
 }
 
-const handleApiResponse = (response: GenerateContentResponse): string => {
-    if (response.promptFeedback?.blockReason) {
-        const { blockReason, blockReasonMessage } = response.promptFeedback;
-        const errorMessage = `Request was blocked. Reason: ${blockReason}. ${blockReasonMessage || ''}`;
-        throw new Error(errorMessage);
-    }
+export interface CandidateOptions extends GenerateOptions {
+    /** How many alternative images to ask for. */
+    count: number;
+}
 
-    // Find the first image part in any candidate
-    for (const candidate of response.candidates ?? []) {
-        const imagePart = candidate.content?.parts?.find(part => part.inlineData);
-        if (imagePart?.inlineData) {
-            const { mimeType, data } = imagePart.inlineData;
-            return `data:${mimeType};base64,${data}`;
-        }
+/**
+ * Sends a request to the active provider, retrying transient failures. Identical requests are
+ * answered from the result cache unless `skipCache` is set; a new result replaces the cached one.
+ * The cache is best-effort: if it can't be used, the request simply goes to the provider.
+ * Resolves with an object URL from the image store (see imageStore.ts).
+ */
+const generate = async (request: ImageGenerationRequest, skipCache = false, variant = 0): Promise<string> => {
+    const provider = getImageProvider();
+    const cacheKey = await getResultCacheKey(provider.name, request, variant).catch(err => {
+        console.warn('Could not hash the request for the result cache.', err);
+        return null;
+    });
+    if (cacheKey && !skipCache) {
+        const cached = await getCachedResult(cacheKey).catch(err => {
+            console.warn('Could not read the result cache.', err);
+            return undefined;
+        });
+        if (cached) return storeImage(cached);
+    }
+    const result = await withRetry(() => provider.generateImage(request), request.signal);
+    if (cacheKey) {
+        putCachedResult(cacheKey, result).catch(err => console.warn('Could not save the result to the cache.', err));
     }
+    return storeImage(result);
+};
 
-    const finishReason = response.candidates?.[0]?.finishReason;
-    if (finishReason && finishReason !== 'STOP') {
-        const errorMessage = `Image generation stopped unexpectedly. Reason: ${finishReason}. This often relates to safety settings.`;
-        throw new Error(errorMessage);
+/**
+ * Sends `count` copies of a request in parallel. Each copy is a separate cache entry, so asking
+ * again returns the same set of candidates. Resolves with the ones that succeeded, in order,
+ * and only fails if all of them do.
+ */
+const generateCandidates = async (request: ImageGenerationRequest, count: number, skipCache = false): Promise<string[]> => {
+    // Candidates that are ready early wait for the rest in no state, so they are held meanwhile.
+    const hold = createImageHold();
+    try {
+        const settled = await Promise.allSettled(
+            Array.from({ length: Math.max(1, count) }, async (_, variant) => {
+                const url = await generate(request, skipCache, variant);
+                hold.add(url);
+                return url;
+            })
+        );
+        const results = settled.flatMap(outcome => outcome.status === 'fulfilled' ? [outcome.value] : []);
+        if (request.signal?.aborted) releaseImages(results);
+        request.signal?.throwIfAborted();
+        if (results.length === 0) throw (settled[0] as PromiseRejectedResult).reason;
+        return results;
+    } finally {
+        hold.release();
     }
-    const textFeedback = response.text?.trim();
-    const errorMessage = `The AI model did not return an image. ` + (textFeedback ? `The model responded with text: "${textFeedback}"` : "This can happen due to safety filters or if the request is too complex. Please try a different image.");
-    throw new Error(errorMessage);
 };
 
-const model = 'gemini-2.5-flash-image-preview';
+// --- Try-On Prompts ---
+
+/** Garments that take the place of what the person is already wearing on that body region. */
+type ReplacementCategory = Exclude<WardrobeCategory, 'bag' | 'headwear' | 'accessory'>;
+/** Items that are added on top of the existing outfit without replacing clothing. */
+type AdditiveCategory = Extract<WardrobeCategory, 'bag' | 'headwear' | 'accessory'>;
+
+const REPLACEMENT_RULES: Record<ReplacementCategory, { region: string; replace: string; keep: string }> = {
+    top: {
+        region: 'upper body',
+        replace: 'the shirt, t-shirt, blouse, sweater or other top',
+        keep: 'trousers, skirt, shoes, outerwear and accessories',
+    },
+    bottom: {
+        region: 'lower body, from the waist down to the ankles',
+        replace: 'the trousers, jeans, skirt or shorts',
+        keep: 'top, outerwear, shoes and accessories',
+    },
+    dress: {
+        region: 'torso and legs, from the shoulders down to the hem',
+        replace: 'both the top and the bottom garments (or an existing dress or jumpsuit)',
+        keep: 'outerwear, shoes and accessories',
+    },
+    outerwear: {
+        region: 'outermost layer over the upper body',
+        replace: 'any existing jacket, coat or blazer (if there is none, layer the new piece over the current top without removing it)',
+        keep: 'top underneath, trousers or skirt, shoes and accessories',
+    },
+    shoes: {
+        region: 'feet',
+        replace: 'the shoes, boots or sandals',
+        keep: 'clothing above the ankles and all accessories',
+    },
+};
+
+const ADDITIVE_RULES: Record<AdditiveCategory, { noun: string; placement: string }> = {
+    bag: {
+        noun: 'bag',
+        placement: 'carried naturally over the shoulder, across the body or in hand, as suits the bag\'s style and straps',
+    },
+    headwear: {
+        noun: 'headwear',
+        placement: 'worn on the head at a natural angle and size; only the hair directly covered or compressed by it may change',
+    },
+    accessory: {
+        noun: 'accessory',
+        placement: 'placed naturally on the person (e.g., sunglasses on the face, a watch on the wrist)',
+    },
+};
+
+const isAdditiveCategory = (category: WardrobeCategory): category is AdditiveCategory => category in ADDITIVE_RULES;
+
+const buildTryOnPrompt = (garmentInfo: WardrobeItem): string => {
+    if (isAdditiveCategory(garmentInfo.category)) {
+        const { noun, placement } = ADDITIVE_RULES[garmentInfo.category];
+        return `You are an expert virtual try-on AI. You will be given a 'model image' and an '${noun} image' (${garmentInfo.name}). Your task is to create a new photorealistic image where the person from the 'model image' is wearing or holding the ${noun} from the '${noun} image'.
+
+**Crucial Rules:**
+1.  **Realistically ADD the ${noun}:** The ${noun} should be ${placement}. Do not replace or remove any of their existing clothing.
+2.  **Preserve the Model & Clothing:** The person's face, hair, body shape, pose, and existing clothing from the 'model image' MUST remain unchanged as much as possible.
+3.  **Preserve the Background:** The entire background from the 'model image' MUST be preserved perfectly.
+4.  **Lighting and Shadows:** Ensure the added ${noun} has lighting and shadows consistent with the original scene.
+5.  **Output:** Return ONLY the final, edited image. Do not include any text.`;
+    }
+
+    const { region, replace, keep } = REPLACEMENT_RULES[garmentInfo.category];
+    return `You are an expert virtual try-on AI. You will be given a 'model image' and a 'garment image' (${garmentInfo.name}). Your task is to create a new photorealistic image where the person from the 'model image' is wearing the clothing from the 'garment image'.
+
+**Crucial Rules:**
+1.  **Analyze the Garment Image:** The 'garment image' may show the clothing item on a person, on a mannequin, or flat. Your first step is to identify the primary clothing item in the 'garment image' and intelligently separate it from its original background or model.
+2.  **Complete Garment Replacement (${region}):** You MUST completely REMOVE and REPLACE ${replace} worn by the person in the 'model image' with the new garment from the 'garment image'. No part of the original clothing it replaces (e.g., collars, sleeves, hems, patterns) should be visible in the final image.
+3.  **Leave Other Clothing Alone:** The person's ${keep} MUST remain exactly as they are in the 'model image'.
+4.  **Preserve the Model:** The person's face, hair, body shape, and pose from the 'model image' MUST remain unchanged.
+5.  **Preserve the Background:** The entire background from the 'model image' MUST be preserved perfectly.
+6.  **Apply the Garment:** Realistically fit the new garment onto the person. It should adapt to their pose with natural folds, shadows, and lighting consistent with the original scene.
+7.  **Output:** Return ONLY the final, edited image. Do not include any text.`;
+};
 
 // --- API Functions ---
 
-export const generateModelImage = async (userImage: File): Promise<string> => {
-    const ai = getInitializedAI();
+const MODEL_BACKGROUND_RULES: Record<Exclude<ModelBackground, 'scene'>, string> = {
+    original: "The background from the original image MUST be preserved perfectly.",
+    studio: "Replace the background with a clean, seamless light-grey studio backdrop, lit with soft, even studio lighting.",
+};
+
+const MODEL_POSE_INSTRUCTIONS: Record<ModelPose, string> = {
+    relaxed: "a standard, relaxed standing model pose",
+    handsOnHips: "a confident standing pose, facing the camera with hands on hips",
+    threeQuarterTurn: "a standing pose with the body slightly turned in a 3/4 view, face towards the camera",
+    walking: "a natural mid-stride walking pose towards the camera",
+};
+
+const MODEL_FRAMING_INSTRUCTIONS: Record<ModelFraming, string> = {
+    fullBody: "a full-body fashion model photo, showing the person from head to toe with the feet fully in frame",
+    threeQuarter: "a three-quarter fashion model photo, showing the person from the head to just above the knees",
+};
+
+const getModelBackgroundRule = ({ background, scenePrompt }: ModelCreationOptions): string => {
+    const scene = scenePrompt?.trim();
+    if (background !== 'scene') return MODEL_BACKGROUND_RULES[background];
+    // A scene with nothing described keeps the photo's own background.
+    if (!scene) return MODEL_BACKGROUND_RULES.original;
+    return `Replace the background with this setting: "${scene}". Light the person so they fit naturally into it.`;
+};
+
+export const generateModelImage = async (
+    userImage: File,
+    modelOptions: ModelCreationOptions = DEFAULT_MODEL_CREATION_OPTIONS,
+    { signal, skipCache }: GenerateOptions = {},
+): Promise<string> => {
     const userImagePart = await fileToPart(userImage);
-    const prompt = `You are an expert fashion photographer AI. Your task is to transform the person in the provided image into a full-body fashion model photo suitable for an e-commerce website. Follow these rules precisely:
+    const prompt = `You are an expert fashion photographer AI. Your task is to transform the person in the provided image into ${MODEL_FRAMING_INSTRUCTIONS[modelOptions.framing]} suitable for an e-commerce website. Follow these rules precisely:
 
 **1. Centering:** The person MUST be perfectly centered within the frame of the final image.
-**2. Background Preservation:** The background from the original image MUST be preserved perfectly.
-**3. Model Transformation:** The person should have a neutral, professional model expression and be placed in a standard, relaxed standing model pose.
+**2. Background:** ${getModelBackgroundRule(modelOptions)}
+**3. Model Transformation:** The person should have a neutral, professional model expression and be placed in ${MODEL_POSE_INSTRUCTIONS[modelOptions.pose]}.
 **4. Identity Preservation:** Preserve the person's identity, unique facial features, and body type.
 **5. Photorealism:** The final image must be photorealistic.
 **6. Output:** Return ONLY the final image file. Do not include any text, descriptions, or commentary.`;
 
-    const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [userImagePart, { text: prompt }] },
-        config: {
-            responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
-    });
-    return handleApiResponse(response);
+    return generate({
+        operation: 'model',
+        images: [userImagePart],
+        prompt,
+        signal,
+    }, skipCache);
 };
 
-export const generateVirtualTryOnImage = async (modelImageUrl: string, garmentImage: File, garmentInfo: WardrobeItem): Promise<string> => {
-    const ai = getInitializedAI();
-    const modelImagePart = dataUrlToPart(modelImageUrl);
+const buildTryOnRequest = async (modelImageUrl: string, garmentImage: File, garmentInfo: WardrobeItem, signal?: AbortSignal): Promise<ImageGenerationRequest> => {
+    const modelImagePart = await urlToPart(modelImageUrl);
     const garmentImagePart = await fileToPart(garmentImage);
     
-    let prompt;
-    if (garmentInfo.category === 'accessory') {
-        prompt = `You are an expert virtual try-on AI. You will be given a 'model image' and an 'accessory image' (${garmentInfo.name}). Your task is to create a new photorealistic image where the person from the 'model image' is wearing or holding the accessory from the 'accessory image'.
+    const prompt = buildTryOnPrompt(garmentInfo);
 
-**Crucial Rules:**
-1.  **Realistically ADD the Accessory:** Place the accessory naturally on the person. Do not replace their existing clothing unless necessary for placement (e.g., placing sunglasses on the face).
-2.  **Preserve the Model & Clothing:** The person's face, hair, body shape, pose, and existing clothing from the 'model image' MUST remain unchanged as much as possible.
-3.  **Preserve the Background:** The entire background from the 'model image' MUST be preserved perfectly.
-4.  **Lighting and Shadows:** Ensure the added accessory has lighting and shadows consistent with the original scene.
-5.  **Output:** Return ONLY the final, edited image. Do not include any text.`;
-    } else { // Default to 'top' or other clothing
-        prompt = `You are an expert virtual try-on AI. You will be given a 'model image' and a 'garment image'. Your task is to create a new photorealistic image where the person from the 'model image' is wearing the clothing from the 'garment image'.
+    return {
+        operation: 'tryOn',
+        images: [modelImagePart, garmentImagePart],
+        prompt,
+        signal,
+    };
+};
 
-**Crucial Rules:**
-1.  **Analyze the Garment Image:** The 'garment image' may show the clothing item on a person, on a mannequin, or flat. Your first step is to identify the primary clothing item in the 'garment image' and intelligently separate it from its original background or model.
-2.  **Complete Garment Replacement:** You MUST completely REMOVE and REPLACE the corresponding clothing item worn by the person in the 'model image' with the new garment from the 'garment image'. No part of the original clothing (e.g., collars, sleeves, patterns) should be visible in the final image.
-3.  **Preserve the Model:** The person's face, hair, body shape, and pose from the 'model image' MUST remain unchanged.
-4.  **Preserve the Background:** The entire background from the 'model image' MUST be preserved perfectly.
-5.  **Apply the Garment:** Realistically fit the new garment onto the person. It should adapt to their pose with natural folds, shadows, and lighting consistent with the original scene.
-6.  **Output:** Return ONLY the final, edited image. Do not include any text.`;
-    }
+export const generateVirtualTryOnImage = async (modelImageUrl: string, garmentImage: File, garmentInfo: WardrobeItem, { signal, skipCache }: GenerateOptions = {}): Promise<string> => {
+    return generate(await buildTryOnRequest(modelImageUrl, garmentImage, garmentInfo, signal), skipCache);
+};
 
-    const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [modelImagePart, garmentImagePart, { text: prompt }] },
-        config: {
-            responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
-    });
-    return handleApiResponse(response);
+export const generateVirtualTryOnCandidates = async (modelImageUrl: string, garmentImage: File, garmentInfo: WardrobeItem, { signal, skipCache, count }: CandidateOptions): Promise<string[]> => {
+    return generateCandidates(await buildTryOnRequest(modelImageUrl, garmentImage, garmentInfo, signal), count, skipCache);
 };
 
-export const generatePoseVariation = async (tryOnImageUrl: string, poseInstruction: string): Promise<string> => {
-    const ai = getInitializedAI();
-    const tryOnImagePart = dataUrlToPart(tryOnImageUrl);
+export const generatePoseVariation = async (tryOnImageUrl: string, poseInstruction: string, referenceImageUrl?: string, { signal, skipCache }: GenerateOptions = {}): Promise<string> => {
+    const tryOnImagePart = await urlToPart(tryOnImageUrl);
+    if (referenceImageUrl) {
+        const referencePart = await urlToPart(referenceImageUrl);
+        const prompt = `You are an expert fashion photographer AI. You will be given a 'model image' and a 'pose reference image'. Regenerate the 'model image' with the person holding the exact body pose shown in the 'pose reference image'${poseInstruction ? ` (${poseInstruction})` : ''}. Take ONLY the pose from the reference: the person's identity, face, hair, body shape, clothing, and the background style must come from the 'model image' and remain identical. Return ONLY the final image.`;
+        return generate({
+            operation: 'pose',
+            images: [tryOnImagePart, referencePart],
+            prompt,
+            signal,
+        }, skipCache);
+    }
     const prompt = `You are an expert fashion photographer AI. Take this image and regenerate it from a different perspective. The person, clothing, and background style must remain identical. The new perspective should be: "${poseInstruction}". Return ONLY the final image.`;
-    const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [tryOnImagePart, { text: prompt }] },
-        config: {
-            responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
-    });
-    return handleApiResponse(response);
-};
-
-export const changeGarmentColor = async (imageUrl: string, newColor: string): Promise<string> => {
-    const ai = getInitializedAI();
-    const imagePart = dataUrlToPart(imageUrl);
-    const prompt = `You are an expert fashion photo editor. Change the color of the main clothing item the person is wearing to ${newColor}. The texture and material of the clothing should be preserved. The person, their pose, all other clothing items/accessories, and the background must remain perfectly identical. Only alter the color of the specified garment. Return ONLY the final, edited image.`;
-    const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [imagePart, { text: prompt }] },
-        config: {
-            responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
-    });
-    return handleApiResponse(response);
+    return generate({
+        operation: 'pose',
+        images: [tryOnImagePart],
+        prompt,
+        signal,
+    }, skipCache);
+};
+
+/** Narrows a color or fabric change down to one garment when the photo shows several. */
+export interface GarmentTarget {
+    /** The garment to change, named and categorised in the prompt. */
+    garment?: WardrobeItem;
+    /** The garment's product image, sent so the model can tell it apart from the others. */
+    garmentImage?: Blob;
+    /** Keeps the change inside the white area of this mask (see `EditMask`). */
+    maskUrl?: string;
+}
+
+/** Appends the target's garment reference and mask to a request's images and their descriptions. */
+const addTargetInputs = async (images: ImageInput[], inputs: string[], { garment, garmentImage, maskUrl }: GarmentTarget): Promise<void> => {
+    if (garment && garmentImage) {
+        images.push(await fileToPart(garmentImage));
+        inputs.push(`a 'garment reference image' of the ${garment.name}`);
+    }
+    if (maskUrl) {
+        images.push(await urlToPart(maskUrl));
+        inputs.push("a 'mask' of the same size as the photo");
+    }
+};
+
+const MASK_RULE = 'Only change what lies inside the white area of the mask; everything in its black area must stay untouched.';
+
+export const changeGarmentColor = async (imageUrl: string, color: GarmentColor, target: GarmentTarget = {}, { signal, skipCache }: GenerateOptions = {}): Promise<string> => {
+    const { garment, garmentImage, maskUrl } = target;
+    const images = [await urlToPart(imageUrl)];
+    const inputs = ["a 'photo'"];
+    await addTargetInputs(images, inputs, target);
+
+    const newColor = describeGarmentColor(color);
+    const rules = garment
+        ? [`Change the color of the ${garment.name} (${garment.category}) the person is wearing to ${newColor}.`,
+           `The person may be wearing several garments layered together: find the ${garment.name}${garmentImage ? " by matching it against the 'garment reference image'" : ''} and recolor only that garment.`]
+        : [`Change the color of the main clothing item the person is wearing to ${newColor}.`];
+    if (maskUrl) rules.push(MASK_RULE);
+    rules.push(color.finish
+        ? `Give the fabric a ${color.finish} finish while keeping its texture, folds and fit.`
+        : 'The texture and material of the clothing should be preserved.');
+    rules.push('The person, their pose, all other clothing items/accessories (including any worn over or under the recolored garment), and the background must remain perfectly identical. Return ONLY the final, edited photo.');
+
+    const prompt = inputs.length > 1
+        ? `You are an expert fashion photo editor. You will be given ${inputs.join(' and ')}. ${rules.join(' ')}`
+        : `You are an expert fashion photo editor. ${rules.join(' ')}`;
+    return generate({
+        operation: 'color',
+        images,
+        prompt,
+        signal,
+    }, skipCache);
+};
+
+/**
+ * Remakes a garment in the material or print shown in `swatch` (denim, plaid, a brand print...).
+ * `note` is the user's optional hint, such as the scale or direction of the pattern.
+ */
+export const changeGarmentFabric = async (imageUrl: string, swatch: Blob, note = '', target: GarmentTarget = {}, { signal, skipCache }: GenerateOptions = {}): Promise<string> => {
+    const { garment, garmentImage, maskUrl } = target;
+    const images = [await urlToPart(imageUrl), await fileToPart(swatch)];
+    const inputs = ["a 'photo'", "a 'fabric swatch'"];
+    await addTargetInputs(images, inputs, target);
+
+    const garmentName = garment ? `${garment.name} (${garment.category})` : 'main clothing item';
+    const rules = [`Remake the ${garmentName} the person is wearing in the exact material and pattern shown in the 'fabric swatch'${note ? `, following this note: "${note}"` : ''}.`];
+    if (garment) {
+        rules.push(`The person may be wearing several garments layered together: find the ${garment.name}${garmentImage ? " by matching it against the 'garment reference image'" : ''} and change only that garment.`);
+    }
+    if (maskUrl) rules.push(MASK_RULE);
+    rules.push("Keep the garment's cut, silhouette, seams, folds and fit exactly as they are. The pattern must follow the folds and drape of the fabric at a realistic scale for the garment, and the material's sheen and weight must match the swatch.");
+    rules.push('The person, their pose, all other clothing items/accessories (including any worn over or under the changed garment), and the background must remain perfectly identical. Return ONLY the final, edited photo.');
+
+    return generate({
+        operation: 'fabric',
+        images,
+        prompt: `You are an expert fashion photo editor. You will be given ${inputs.join(' and ')}. ${rules.join(' ')}`,
+        signal,
+    }, skipCache);
 };
 
-export const changeBackground = async (imageUrl: string, backgroundPrompt: string): Promise<string> => {
-    const ai = getInitializedAI();
-    const imagePart = dataUrlToPart(imageUrl);
+export const changeBackground = async (imageUrl: string, backgroundPrompt: string, referenceImageUrl?: string, { signal, skipCache }: GenerateOptions = {}): Promise<string> => {
+    const imagePart = await urlToPart(imageUrl);
+    if (referenceImageUrl) {
+        const referencePart = await urlToPart(referenceImageUrl);
+        const prompt = `You are an expert photo editor. You will be given a 'person image' and a 'background reference image'. Replace the background of the 'person image' with the place shown in the 'background reference image'${backgroundPrompt ? `, described as: "${backgroundPrompt}"` : ''}. Match its perspective and scale so the person stands in it naturally. The person and their clothing/accessories must remain completely unchanged and perfectly preserved. The lighting and shadows on the person should be realistically adjusted to match the new background environment. Return ONLY the final, edited image.`;
+        return generate({
+            operation: 'background',
+            images: [imagePart, referencePart],
+            prompt,
+            signal,
+        }, skipCache);
+    }
     const prompt = `You are an expert photo editor. Replace the background of this image with a new one described as: "${backgroundPrompt}". The person and their clothing/accessories must remain completely unchanged and perfectly preserved. The lighting and shadows on the person should be realistically adjusted to match the new background environment. Return ONLY the final, edited image.`;
-    const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [imagePart, { text: prompt }] },
-        config: {
-            responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
-    });
-    return handleApiResponse(response);
+    return generate({
+        operation: 'background',
+        images: [imagePart],
+        prompt,
+        signal,
+    }, skipCache);
 };
 
-export const changeLighting = async (imageUrl: string, lightingPrompt: string): Promise<string> => {
-    const ai = getInitializedAI();
-    const imagePart = dataUrlToPart(imageUrl);
+export const changeLighting = async (imageUrl: string, lightingPrompt: string, { signal, skipCache }: GenerateOptions = {}): Promise<string> => {
+    const imagePart = await urlToPart(imageUrl);
     const prompt = `You are an expert lighting director AI. Relight this image to match the following style: "${lightingPrompt}". Adjust shadows and highlights realistically. The person, their clothing, and the background must remain perfectly identical. Only alter the lighting. Return ONLY the final, edited image.`;
-    const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [imagePart, { text: prompt }] },
-        config: {
-            responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
-    });
-    return handleApiResponse(response);
+    return generate({
+        operation: 'lighting',
+        images: [imagePart],
+        prompt,
+        signal,
+    }, skipCache);
 };
 
-export const generateLookbook = async (imageUrls: string[], templatePrompt: string): Promise<string> => {
-    const ai = getInitializedAI();
-    const imageParts = imageUrls.map(url => dataUrlToPart(url));
+export const generateLookbook = async (imageUrls: string[], templatePrompt: string, { signal, skipCache }: GenerateOptions = {}): Promise<string> => {
+    const imageParts = await Promise.all(imageUrls.map(urlToPart));
     const prompt = `You are a professional graphic designer for a high-end fashion magazine. You will be given several images of a fashion model in different outfits. Your task is to arrange these images into a single, stylish, and visually appealing lookbook page.
     **Layout Style:** ${templatePrompt}
     Ensure the final composition looks like a page from a premium fashion catalog. Return ONLY the final, single lookbook image.`;
     
-    const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [...imageParts, { text: prompt }] },
-        config: {
-            responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
-    });
-    return handleApiResponse(response);
+    return generate({
+        operation: 'lookbook',
+        images: imageParts,
+        prompt,
+        signal,
+    }, skipCache);
 };
 
-export const magicWandEdit = async (imageUrl: string, instruction: string): Promise<string> => {
-    const ai = getInitializedAI();
-    const imagePart = dataUrlToPart(imageUrl);
+const buildMagicWandRequest = async (imageUrl: string, instruction: string, maskUrl?: string, signal?: AbortSignal): Promise<ImageGenerationRequest> => {
+    const imagePart = await urlToPart(imageUrl);
+    if (maskUrl) {
+        const prompt = `You are an expert fashion photo editor AI. You will be given a 'photo' and a 'mask' of the same size, and an instruction. The white area of the mask marks the part of the photo to edit.
+**Instruction:** "${instruction}".
+
+**Crucial Rules:**
+1.  **Edit Only Inside the Mask:** Apply the requested edit only to what lies inside the white area of the mask, blending naturally at its edges.
+2.  **Preserve Everything Else:** Everything in the black area of the mask, including the person's face, body, pose, the background, and any other clothing or accessories, MUST remain perfectly identical.
+3.  **Output:** Return ONLY the final, edited photo. Do not return the mask or add any text.`;
+
+        return {
+            operation: 'magicWand',
+            images: [imagePart, await urlToPart(maskUrl)],
+            prompt,
+            signal,
+        };
+    }
     const prompt = `You are an expert fashion photo editor AI. You will be given an image and an instruction to edit the main garment the person is wearing.
 **Instruction:** "${instruction}".
 
@@ -243,12 +426,18 @@ export const magicWandEdit = async (imageUrl: string, instruction: string): Prom
 2.  **Preserve Everything Else:** The person's face, body, pose, the background, and any other clothing or accessories MUST remain perfectly identical.
 3.  **Output:** Return ONLY the final, edited image. Do not add any text.`;
 
-    const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [imagePart, { text: prompt }] },
-        config: {
-            responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
-    });
-    return handleApiResponse(response);
+    return {
+        operation: 'magicWand',
+        images: [imagePart],
+        prompt,
+        signal,
+    };
+};
+
+export const magicWandEdit = async (imageUrl: string, instruction: string, maskUrl?: string, { signal, skipCache }: GenerateOptions = {}): Promise<string> => {
+    return generate(await buildMagicWandRequest(imageUrl, instruction, maskUrl, signal), skipCache);
+};
+
+export const magicWandEditCandidates = async (imageUrl: string, instruction: string, maskUrl: string | undefined, { signal, skipCache, count }: CandidateOptions): Promise<string[]> => {
+    return generateCandidates(await buildMagicWandRequest(imageUrl, instruction, maskUrl, signal), count, skipCache);
 };
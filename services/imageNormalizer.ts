@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { normalizeImage, NormalizeImageOptions } from "../lib/normalizeImage.ts";
+import { GenerationError } from "./errors.ts";
+
+// --- Cleans up images before they are uploaded: upright, downsized, metadata-free PNG or JPEG ---
+
+const NORMALIZE_OPTIONS: NormalizeImageOptions = {
+    maxDimension: Number(import.meta.env.VITE_MAX_IMAGE_DIMENSION ?? 2048),
+    quality: 0.9,
+};
+
+/** Types the model accepts, so an image the browser can't decode may still be sent as it is. */
+const UPLOADABLE_TYPES: ReadonlySet<string> = new Set(['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif']);
+
+export interface NormalizeRequest {
+    id: number;
+    blob: Blob;
+    options: NormalizeImageOptions;
+}
+
+export type NormalizeResponse = { id: number; blob: Blob } | { id: number; error: string };
+
+let worker: Worker | null = null;
+let isWorkerUnavailable = false;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, { resolve: (blob: Blob) => void; reject: (error: Error) => void }>();
+
+/** The shared worker, started on first use; null if workers can't run here. */
+const getWorker = (): Worker | null => {
+    if (worker || isWorkerUnavailable) return worker;
+    try {
+        worker = new Worker(new URL('./imageNormalizer.worker.ts', import.meta.url), { type: 'module' });
+    } catch (err) {
+        console.warn('Could not start the image worker; normalizing images on the main thread.', err);
+        isWorkerUnavailable = true;
+        return null;
+    }
+    worker.onmessage = ({ data }: MessageEvent<NormalizeResponse>) => {
+        const request = pendingRequests.get(data.id);
+        pendingRequests.delete(data.id);
+        if ('error' in data) request?.reject(new Error(data.error));
+        else request?.resolve(data.blob);
+    };
+    // The worker failed to load or crashed: fail what it was doing and stop using it.
+    worker.onerror = event => {
+        console.warn('The image worker stopped; normalizing images on the main thread.', event.message);
+        worker?.terminate();
+        worker = null;
+        isWorkerUnavailable = true;
+        pendingRequests.forEach(request => request.reject(new Error('The image worker stopped.')));
+        pendingRequests.clear();
+    };
+    return worker;
+};
+
+const normalizeInWorker = (activeWorker: Worker, blob: Blob): Promise<Blob> => new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pendingRequests.set(id, { resolve, reject });
+    const request: NormalizeRequest = { id, blob, options: NORMALIZE_OPTIONS };
+    activeWorker.postMessage(request);
+});
+
+/**
+ * Prepares an image for upload (see `normalizeImage`), in a worker where possible. Images the
+ * browser can't decode are sent unchanged if the model accepts their type, and rejected as an
+ * unsupported format otherwise. Browsers without `OffscreenCanvas` send every image unchanged.
+ */
+export const normalizeForUpload = async (blob: Blob): Promise<Blob> => {
+    if (typeof OffscreenCanvas === 'undefined' || typeof createImageBitmap === 'undefined') return blob;
+    const activeWorker = getWorker();
+    try {
+        if (activeWorker) {
+            // A failure in the worker is retried here, in case it was the worker rather than the image.
+            return await normalizeInWorker(activeWorker, blob).catch(() => normalizeImage(blob, NORMALIZE_OPTIONS));
+        }
+        return await normalizeImage(blob, NORMALIZE_OPTIONS);
+    } catch (err) {
+        if (UPLOADABLE_TYPES.has(blob.type)) return blob;
+        throw new GenerationError('invalidInput', `Unsupported MIME type: ${blob.type || 'unknown'}`, { cause: err });
+    }
+};
@@ -0,0 +1,18 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { normalizeImage } from "../lib/normalizeImage.ts";
+import type { NormalizeRequest, NormalizeResponse } from "./imageNormalizer.ts";
+
+// Decoding and re-encoding large photos takes long enough to stutter the UI, so it happens here.
+self.onmessage = async ({ data: { id, blob, options } }: MessageEvent<NormalizeRequest>) => {
+    let response: NormalizeResponse;
+    try {
+        response = { id, blob: await normalizeImage(blob, options) };
+    } catch (err) {
+        response = { id, error: err instanceof Error ? err.message : String(err) };
+    }
+    self.postMessage(response);
+};
@@ -0,0 +1,197 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { mapStrings } from "../lib/utils.ts";
+import { openDatabase, requestToPromise, STORES, transactionDone } from "./db.ts";
+
+// --- Generated images as Blobs behind object URLs, so state and history hold short URLs rather than
+// megabytes of base64. Images are reference counted: those nothing refers to or holds any more are
+// dropped; past the memory cap, images that only older history refers to are moved out to IndexedDB ---
+
+/** Image bytes kept in memory; beyond it, the least recently shown images outside the current state are spilled. */
+const MAX_MEMORY_BYTES = 150 * 1024 * 1024;
+
+interface StoredImage {
+    id: string;
+    url: string;
+    /** The image itself, or once spilled, the disk-backed copy read back from IndexedDB. */
+    blob: Blob;
+    spilled: boolean;
+    /** How many times the last `updateImageReferences` found this image's URL. */
+    refs: number;
+    /** Holds taken by work in progress (see `createImageHold`). */
+    holds: number;
+    /**
+     * Set until a sweep first finds the image or its caller releases it (see `releaseImages`): a new
+     * image is on its way into the state, which the roots of a sweep may not show yet.
+     */
+    isNew: boolean;
+    lastShownAt: number;
+}
+
+/** Images some work in progress needs, so they are neither dropped nor spilled until it lets go. */
+export interface ImageHold {
+    /** Holds every stored image `value` refers to. */
+    add: (value: unknown) => void;
+    /** Lets go of everything this hold took. */
+    release: () => void;
+    /** Lets go as well, for work that failed: the new images it took go nowhere (see `releaseImages`). */
+    discard: () => void;
+}
+
+type ImagesMovedListener = (moved: Map<string, string>) => void;
+
+// Keyed by object URL.
+const images = new Map<string, StoredImage>();
+const movedListeners = new Set<ImagesMovedListener>();
+let isSpilling = false;
+// Spilled images die with the page's object URLs, so whatever a previous page spilled is cleared first.
+let spillStoreReady: Promise<void> | null = null;
+
+const countStoredUrls = (value: unknown): Map<string, number> => {
+    const counts = new Map<string, number>();
+    mapStrings(value, str => {
+        if (images.has(str)) counts.set(str, (counts.get(str) ?? 0) + 1);
+        return str;
+    });
+    return counts;
+};
+
+const prepareSpillStore = (): Promise<void> => {
+    spillStoreReady ??= (async () => {
+        const db = await openDatabase();
+        const transaction = db.transaction(STORES.spilledImages, 'readwrite');
+        transaction.objectStore(STORES.spilledImages).clear();
+        await transactionDone(transaction);
+    })();
+    spillStoreReady.catch(() => { spillStoreReady = null; });
+    return spillStoreReady;
+};
+
+/** Writes an image to IndexedDB and reads it back; browsers keep such Blobs on disk rather than in memory. */
+const spillToDatabase = async (id: string, blob: Blob): Promise<Blob> => {
+    await prepareSpillStore();
+    const db = await openDatabase();
+    const write = db.transaction(STORES.spilledImages, 'readwrite');
+    write.objectStore(STORES.spilledImages).put(blob, id);
+    await transactionDone(write);
+    const read = db.transaction(STORES.spilledImages, 'readonly');
+    return requestToPromise(read.objectStore(STORES.spilledImages).get(id)) as Promise<Blob>;
+};
+
+const dropImage = (image: StoredImage) => {
+    images.delete(image.url);
+    URL.revokeObjectURL(image.url);
+    if (!image.spilled) return;
+    openDatabase()
+        .then(db => {
+            const transaction = db.transaction(STORES.spilledImages, 'readwrite');
+            transaction.objectStore(STORES.spilledImages).delete(image.id);
+            return transactionDone(transaction);
+        })
+        .catch(err => console.warn('Could not delete a spilled image.', err));
+};
+
+/** Moves images history refers to out to IndexedDB, least recently shown first, until memory use fits the cap. */
+const spillOverflow = async (pinned: Set<string>) => {
+    if (isSpilling) return;
+    isSpilling = true;
+    try {
+        const inMemory = [...images.values()].filter(image => !image.spilled);
+        let memoryBytes = inMemory.reduce((sum, image) => sum + image.blob.size, 0);
+        // Unreferenced images are left alone: they may be on their way into the state. Held images keep
+        // their URLs, which the work holding them may still read.
+        const candidates = inMemory
+            .filter(image => image.refs > 0 && image.holds === 0 && !pinned.has(image.url))
+            .sort((a, b) => a.lastShownAt - b.lastShownAt);
+        const moved = new Map<string, string>();
+        for (const image of candidates) {
+            if (memoryBytes <= MAX_MEMORY_BYTES) break;
+            const diskBlob = await spillToDatabase(image.id, image.blob);
+            // Dropped or taken hold of while it was being written
+            if (images.get(image.url) !== image || image.holds > 0) continue;
+            const url = URL.createObjectURL(diskBlob);
+            images.delete(image.url);
+            images.set(url, { ...image, url, blob: diskBlob, spilled: true });
+            moved.set(image.url, url);
+            memoryBytes -= image.blob.size;
+        }
+        if (moved.size === 0) return;
+        movedListeners.forEach(listener => listener(moved));
+        moved.forEach((_, oldUrl) => URL.revokeObjectURL(oldUrl));
+    } finally {
+        isSpilling = false;
+    }
+};
+
+/**
+ * Keeps an image (a Blob or a data URL) and returns an object URL for it. Stored URLs are returned as they are.
+ * The new image is kept until it has been in the state, so a caller that discards it must release it.
+ */
+export const storeImage = async (source: Blob | string): Promise<string> => {
+    if (typeof source === 'string' && images.has(source)) return source;
+    const blob = typeof source === 'string' ? await (await fetch(source)).blob() : source;
+    const url = URL.createObjectURL(blob);
+    images.set(url, { id: crypto.randomUUID(), url, blob, spilled: false, refs: 0, holds: 0, isNew: true, lastShownAt: Date.now() });
+    return url;
+};
+
+/**
+ * Starts holding images for work that reads or produces them over time, such as a job replaying
+ * several garments: sweeps don't see its inputs and intermediate results, as they are in no state yet.
+ */
+export const createImageHold = (): ImageHold => {
+    const held: StoredImage[] = [];
+    return {
+        add: value => {
+            for (const url of countStoredUrls(value).keys()) {
+                const image = images.get(url)!;
+                image.holds++;
+                held.push(image);
+            }
+        },
+        release: () => {
+            for (const image of held.splice(0)) image.holds--;
+        },
+        discard: () => {
+            for (const image of held.splice(0)) {
+                image.holds--;
+                image.isNew = false;
+            }
+        },
+    };
+};
+
+/** Lets go of new images that won't be put into the state, such as a result that came after its job was cancelled. */
+export const releaseImages = (value: unknown): void => {
+    for (const url of countStoredUrls(value).keys()) images.get(url)!.isNew = false;
+};
+
+/**
+ * Recounts which stored images are in use. `roots` is everything that may refer to images (the
+ * history, open dialogs...); `pinned` is what is on screen now, which is never spilled. Images that
+ * are neither referenced, held nor new are dropped, then memory is brought under the cap.
+ */
+export const updateImageReferences = (roots: unknown, pinned: unknown): void => {
+    const counts = countStoredUrls(roots);
+    const pinnedUrls = new Set(countStoredUrls(pinned).keys());
+    const now = Date.now();
+    for (const image of [...images.values()]) {
+        image.refs = counts.get(image.url) ?? 0;
+        if (pinnedUrls.has(image.url)) image.lastShownAt = now;
+        if (image.refs > 0 || pinnedUrls.has(image.url)) image.isNew = false;
+        else if (image.holds === 0 && !image.isNew) dropImage(image);
+    }
+    spillOverflow(pinnedUrls).catch(err => console.warn('Could not move images out of memory.', err));
+};
+
+/** Called with old-to-new URLs when images are spilled; whatever holds the old URLs should switch over. */
+export const onImagesMoved = (listener: ImagesMovedListener): (() => void) => {
+    movedListeners.add(listener);
+    return () => movedListeners.delete(listener);
+};
+
+export const remapImageUrls = <T>(value: T, moved: Map<string, string>): T =>
+    mapStrings(value, str => moved.get(str) ?? str) as T;
@@ -0,0 +1,167 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- A queue of generation jobs that run in the background, several at a time ---
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface Job<TTarget> {
+    id: string;
+    label: string;
+    /** Jobs in the same lane share that lane's concurrency limit (see `JobQueueOptions.laneConcurrency`). */
+    lane?: string;
+    /** What the job is working on, for the UI's pending indicators. */
+    target?: TTarget;
+    status: JobStatus;
+    error?: unknown;
+    createdAt: number;
+}
+
+export interface JobRequest<T, TTarget> {
+    label: string;
+    lane?: string;
+    target?: TTarget;
+    /** Does the work. `setLabel` updates the label shown for the job, e.g. with progress. */
+    run: (signal: AbortSignal, setLabel: (label: string) => void) => Promise<T>;
+}
+
+export interface JobQueueOptions {
+    /** How many jobs may run at once across all lanes. */
+    concurrency: number;
+    laneConcurrency?: Record<string, number>;
+    /** Finished jobs kept for the tray; older ones are dropped first. */
+    maxFinishedJobs?: number;
+}
+
+export interface JobQueue<TTarget> {
+    /** Resolves with the job's result; rejects with its error, or an AbortError if it was cancelled. */
+    enqueue: <T>(request: JobRequest<T, TTarget>) => Promise<T>;
+    /** Stops a queued or running job. Cancelled jobs leave the list. */
+    cancel: (id: string) => void;
+    cancelWhere: (predicate: (job: Job<TTarget>) => boolean) => void;
+    /** Removes a finished job from the list. */
+    dismiss: (id: string) => void;
+    clearFinished: () => void;
+    /** The current jobs, oldest first. The array is replaced on every change. */
+    getJobs: () => readonly Job<TTarget>[];
+    subscribe: (listener: () => void) => () => void;
+}
+
+interface Entry<TTarget> {
+    job: Job<TTarget>;
+    controller: AbortController;
+    start: () => void;
+    reject: (reason: unknown) => void;
+}
+
+export const isJobPending = (job: Job<unknown>) => job.status === 'queued' || job.status === 'running';
+
+export const createJobQueue = <TTarget>({ concurrency, laneConcurrency = {}, maxFinishedJobs = 20 }: JobQueueOptions): JobQueue<TTarget> => {
+    let entries: Entry<TTarget>[] = [];
+    let jobs: readonly Job<TTarget>[] = [];
+    const listeners = new Set<() => void>();
+
+    const emit = () => {
+        const finished = entries.filter(entry => !isJobPending(entry.job));
+        if (finished.length > maxFinishedJobs) {
+            const dropped = new Set(finished.slice(0, finished.length - maxFinishedJobs));
+            entries = entries.filter(entry => !dropped.has(entry));
+        }
+        jobs = entries.map(entry => entry.job);
+        listeners.forEach(listener => listener());
+    };
+
+    const update = (entry: Entry<TTarget>, changes: Partial<Job<TTarget>>) => {
+        entry.job = { ...entry.job, ...changes };
+        emit();
+    };
+
+    const remove = (entry: Entry<TTarget>) => {
+        entries = entries.filter(other => other !== entry);
+        emit();
+    };
+
+    // Starts as many queued jobs as the limits allow, oldest first.
+    const pump = () => {
+        const running = entries.filter(entry => entry.job.status === 'running');
+        for (const entry of entries) {
+            if (running.length >= concurrency) break;
+            if (entry.job.status !== 'queued') continue;
+            const { lane } = entry.job;
+            const laneLimit = lane ? laneConcurrency[lane] : undefined;
+            if (laneLimit !== undefined && running.filter(other => other.job.lane === lane).length >= laneLimit) continue;
+            running.push(entry);
+            entry.start();
+        }
+    };
+
+    const enqueue = <T>(request: JobRequest<T, TTarget>): Promise<T> => new Promise<T>((resolve, reject) => {
+        const controller = new AbortController();
+        const entry: Entry<TTarget> = {
+            job: {
+                id: crypto.randomUUID(),
+                label: request.label,
+                lane: request.lane,
+                target: request.target,
+                status: 'queued',
+                createdAt: Date.now(),
+            },
+            controller,
+            reject,
+            start: () => {
+                update(entry, { status: 'running' });
+                request.run(controller.signal, label => update(entry, { label }))
+                    .then(result => {
+                        controller.signal.throwIfAborted();
+                        update(entry, { status: 'done' });
+                        resolve(result);
+                    })
+                    .catch(err => {
+                        if (controller.signal.aborted) {
+                            remove(entry);
+                            reject(controller.signal.reason);
+                        } else {
+                            update(entry, { status: 'failed', error: err });
+                            reject(err);
+                        }
+                    })
+                    .finally(pump);
+            },
+        };
+        entries = [...entries, entry];
+        emit();
+        pump();
+    });
+
+    const cancelEntry = (entry: Entry<TTarget>) => {
+        if (entry.job.status === 'running') {
+            // The run's rejection removes the entry and settles the promise.
+            entry.controller.abort();
+        } else if (entry.job.status === 'queued') {
+            entry.controller.abort();
+            remove(entry);
+            entry.reject(entry.controller.signal.reason);
+        }
+    };
+
+    return {
+        enqueue,
+        cancel: id => entries.filter(entry => entry.job.id === id).forEach(cancelEntry),
+        cancelWhere: predicate => entries.filter(entry => predicate(entry.job)).forEach(cancelEntry),
+        dismiss: id => {
+            const entry = entries.find(other => other.job.id === id);
+            if (entry && !isJobPending(entry.job)) remove(entry);
+        },
+        clearFinished: () => {
+            entries = entries.filter(entry => isJobPending(entry.job));
+            emit();
+        },
+        getJobs: () => jobs,
+        subscribe: listener => {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+    };
+};
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Pose, ScenePreset } from "../types.ts";
+import { openDatabase, requestToPromise, StoreName, STORES, transactionDone } from "./db.ts";
+
+// --- The user's own poses and scene presets, kept across sessions and Start Over ---
+
+/** Something the user made, optionally from a reference photo that is stored alongside it. */
+interface LibraryItem {
+    id: string;
+    referenceImageUrl?: string;
+    createdAt?: number;
+}
+
+type StoredLibraryItem<T extends LibraryItem> = Omit<T, 'referenceImageUrl' | 'createdAt'> & {
+    referenceImage?: Blob;
+    createdAt: number;
+};
+
+const createLibrary = <T extends LibraryItem>(storeName: StoreName) => ({
+    /** Every saved item, oldest first, with a fresh object URL for each reference photo. */
+    load: async (): Promise<T[]> => {
+        const db = await openDatabase();
+        const transaction = db.transaction(storeName, 'readonly');
+        const stored = await requestToPromise(transaction.objectStore(storeName).getAll()) as StoredLibraryItem<T>[];
+        return stored
+            .sort((a, b) => a.createdAt - b.createdAt)
+            .map(({ referenceImage, ...item }) => ({
+                ...item,
+                referenceImageUrl: referenceImage ? URL.createObjectURL(referenceImage) : undefined,
+            }) as unknown as T);
+    },
+
+    add: async ({ referenceImageUrl: _referenceImageUrl, ...item }: T, referenceImage?: Blob): Promise<void> => {
+        const stored = { ...item, referenceImage, createdAt: item.createdAt ?? Date.now() };
+        const db = await openDatabase();
+        const transaction = db.transaction(storeName, 'readwrite');
+        transaction.objectStore(storeName).put(stored, item.id);
+        await transactionDone(transaction);
+    },
+
+    /** Deletes the item and lets go of its reference photo's object URL. */
+    remove: async (item: T): Promise<void> => {
+        if (item.referenceImageUrl) URL.revokeObjectURL(item.referenceImageUrl);
+        const db = await openDatabase();
+        const transaction = db.transaction(storeName, 'readwrite');
+        transaction.objectStore(storeName).delete(item.id);
+        await transactionDone(transaction);
+    },
+});
+
+export const {
+    load: loadCustomPoses,
+    add: addCustomPose,
+    remove: deleteCustomPose,
+} = createLibrary<Pose>(STORES.poses);
+
+export const {
+    load: loadScenePresets,
+    add: addScenePreset,
+    remove: deleteScenePreset,
+} = createLibrary<ScenePreset>(STORES.scenePresets);
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GoogleGenAI, GenerateContentResponse, Modality } from "@google/genai";
+import { GenerationError } from "../errors.ts";
+import { ImageGenerationProvider, ImageGenerationRequest } from "./types.ts";
+
+const model = 'gemini-2.5-flash-image-preview';
+
+// Finish reasons that mean the output was withheld by a content filter rather than a generation hiccup.
+const SAFETY_FINISH_REASONS = new Set(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'RECITATION']);
+
+// --- SDK Initialization with Error Handling (Lazy Initialization) ---
+let ai: GoogleGenAI | null = null;
+let initializationError: Error | null = null;
+
+/**
+ * A helper function to initialize the AI client on first use.
+ * This lazy initialization prevents the app from crashing on load if the API key is missing.
+ * Throws a detailed error if initialization fails.
+ */
+const getInitializedAI = (): GoogleGenAI => {
+    // If it's already initialized successfully, return it.
+    if (ai) {
+        return ai;
+    }
+    // If we already tried to initialize and it failed, throw the stored error
+    // to avoid re-running the failing logic.
+    if (initializationError) {
+        throw new GenerationError('config', `AI Service initialization failed: ${initializationError.message}`);
+    }
+
+    try {
+        const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
+        if (!apiKey) {
+            throw new Error("VITE_GEMINI_API_KEY environment variable not found. Please configure it in your deployment settings.");
+        }
+        ai = new GoogleGenAI({ apiKey: apiKey });
+        return ai;
+    } catch (e) {
+        initializationError = e instanceof Error ? e : new Error(String(e));
+        console.error("Fatal Error: GoogleGenAI failed to initialize.", initializationError);
+        throw new GenerationError('config', `AI Service initialization failed: ${initializationError.message}`);
+    }
+};
+
+const handleApiResponse = (response: GenerateContentResponse): string => {
+    if (response.promptFeedback?.blockReason) {
+        const { blockReason, blockReasonMessage } = response.promptFeedback;
+        const errorMessage = `Request was blocked. Reason: ${blockReason}. ${blockReasonMessage || ''}`;
+        throw new GenerationError('safety', errorMessage);
+    }
+
+    // Find the first image part in any candidate
+    for (const candidate of response.candidates ?? []) {
+        const imagePart = candidate.content?.parts?.find(part => part.inlineData);
+        if (imagePart?.inlineData) {
+            const { mimeType, data } = imagePart.inlineData;
+            return `data:${mimeType};base64,${data}`;
+        }
+    }
+
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (finishReason && finishReason !== 'STOP') {
+        const errorMessage = `Image generation stopped unexpectedly. Reason: ${finishReason}. This often relates to safety settings.`;
+        throw new GenerationError(SAFETY_FINISH_REASONS.has(finishReason) ? 'safety' : 'noImage', errorMessage);
+    }
+    const textFeedback = response.text?.trim();
+    const errorMessage = `The AI model did not return an image. ` + (textFeedback ? `The model responded with text: "${textFeedback}"` : "This can happen due to safety filters or if the request is too complex. Please try a different image.");
+    throw new GenerationError('noImage', errorMessage);
+};
+
+export const geminiProvider: ImageGenerationProvider = {
+    name: 'gemini',
+    async generateImage({ images, prompt, signal }: ImageGenerationRequest): Promise<string> {
+        const ai = getInitializedAI();
+        const imageParts = images.map(({ mimeType, data }) => ({ inlineData: { mimeType, data } }));
+        const response = await ai.models.generateContent({
+            model,
+            contents: { parts: [...imageParts, { text: prompt }] },
+            config: {
+                responseModalities: [Modality.IMAGE, Modality.TEXT],
+                abortSignal: signal,
+            },
+        });
+        // The SDK only cancels the underlying fetch, so a response that raced the abort is dropped here.
+        signal?.throwIfAborted();
+        return handleApiResponse(response);
+    },
+};
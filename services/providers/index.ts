@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { geminiProvider } from "./geminiProvider.ts";
+import { mockProvider } from "./mockProvider.ts";
+import { ImageGenerationProvider } from "./types.ts";
+
+export type { ImageGenerationProvider, ImageGenerationRequest, ImageInput, ImageOperation } from "./types.ts";
+
+const providers: Record<string, ImageGenerationProvider> = {
+    [geminiProvider.name]: geminiProvider,
+    [mockProvider.name]: mockProvider,
+};
+
+/**
+ * Picks the provider at startup. A `?provider=` query parameter wins over the
+ * `VITE_IMAGE_PROVIDER` build setting so a deployed build can still be demoed offline.
+ */
+const resolveInitialProvider = (): ImageGenerationProvider => {
+    const fromQuery = typeof window !== 'undefined'
+        ? new URLSearchParams(window.location.search).get('provider')
+        : null;
+    const requested = fromQuery ?? import.meta.env.VITE_IMAGE_PROVIDER;
+    if (requested && providers[requested]) {
+        return providers[requested];
+    }
+    if (requested) {
+        console.warn(`Unknown image provider "${requested}", falling back to "${geminiProvider.name}".`);
+    }
+    return geminiProvider;
+};
+
+let activeProvider: ImageGenerationProvider = resolveInitialProvider();
+
+export const getImageProvider = (): ImageGenerationProvider => activeProvider;
+
+export const setImageProvider = (provider: ImageGenerationProvider) => {
+    activeProvider = provider;
+};
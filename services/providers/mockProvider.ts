@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GenerationError } from "../errors.ts";
+import { sleep } from "../retry.ts";
+import { ImageGenerationProvider, ImageGenerationRequest, ImageInput, ImageOperation } from "./types.ts";
+
+// Simulated round-trip time, so loading states are visible while developing.
+const MOCK_LATENCY_MS = Number(import.meta.env.VITE_MOCK_LATENCY_MS ?? 800);
+
+const OPERATION_LABELS: Record<ImageOperation, string> = {
+    model: 'MODEL',
+    tryOn: 'TRY-ON',
+    pose: 'POSE',
+    color: 'COLOR',
+    fabric: 'FABRIC',
+    background: 'BACKGROUND',
+    lighting: 'LIGHTING',
+    lookbook: 'LOOKBOOK',
+    magicWand: 'EDIT',
+};
+
+/** FNV-1a, so the same request always produces the same tint. */
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const loadImage = (input: ImageInput): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new GenerationError('invalidInput', `Mock provider could not decode input image (${input.mimeType}).`));
+        image.src = `data:${input.mimeType};base64,${input.data}`;
+    });
+};
+
+const drawLookbook = (ctx: CanvasRenderingContext2D, images: HTMLImageElement[], width: number, height: number) => {
+    const columns = Math.ceil(Math.sqrt(images.length));
+    const rows = Math.ceil(images.length / columns);
+    const cellWidth = width / columns;
+    const cellHeight = height / rows;
+    ctx.fillStyle = '#f5f5f4';
+    ctx.fillRect(0, 0, width, height);
+    images.forEach((image, index) => {
+        const scale = Math.min(cellWidth / image.naturalWidth, cellHeight / image.naturalHeight) * 0.9;
+        const drawWidth = image.naturalWidth * scale;
+        const drawHeight = image.naturalHeight * scale;
+        const x = (index % columns) * cellWidth + (cellWidth - drawWidth) / 2;
+        const y = Math.floor(index / columns) * cellHeight + (cellHeight - drawHeight) / 2;
+        ctx.drawImage(image, x, y, drawWidth, drawHeight);
+    });
+};
+
+/**
+ * A deterministic, offline stand-in for the Gemini provider. It returns the
+ * first input image with a tint derived from the request and a label naming
+ * the operation, which is enough to exercise the whole dressing-room flow.
+ */
+export const mockProvider: ImageGenerationProvider = {
+    name: 'mock',
+    async generateImage({ operation, images, prompt, signal }: ImageGenerationRequest): Promise<string> {
+        if (images.length === 0) {
+            throw new GenerationError('invalidInput', 'Mock provider requires at least one input image.');
+        }
+        await sleep(MOCK_LATENCY_MS, signal);
+
+        const decoded = await Promise.all(images.map(loadImage));
+        const [base] = decoded;
+        const width = base.naturalWidth || 768;
+        const height = base.naturalHeight || 1024;
+
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            throw new Error('Mock provider could not get a canvas context.');
+        }
+
+        if (operation === 'lookbook') {
+            drawLookbook(ctx, decoded, width, height);
+        } else {
+            ctx.drawImage(base, 0, 0, width, height);
+            const hue = hashString(`${operation}:${prompt}`) % 360;
+            ctx.fillStyle = `hsla(${hue}, 70%, 50%, 0.25)`;
+            ctx.fillRect(0, 0, width, height);
+            // Show the garment (or any secondary reference) as an inset thumbnail.
+            if (decoded.length > 1) {
+                const inset = decoded[1];
+                const insetWidth = width * 0.25;
+                const insetHeight = insetWidth * (inset.naturalHeight / inset.naturalWidth);
+                ctx.drawImage(inset, width - insetWidth - 12, 12, insetWidth, insetHeight);
+            }
+        }
+
+        const bannerHeight = Math.max(24, Math.round(height * 0.05));
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+        ctx.fillRect(0, height - bannerHeight, width, bannerHeight);
+        ctx.fillStyle = '#ffffff';
+        ctx.font = `600 ${Math.round(bannerHeight * 0.5)}px sans-serif`;
+        ctx.textBaseline = 'middle';
+        ctx.fillText(`MOCK · ${OPERATION_LABELS[operation]}`, 12, height - bannerHeight / 2);
+
+        signal?.throwIfAborted();
+        return canvas.toDataURL('image/png');
+    },
+};
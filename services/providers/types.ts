@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * The kind of edit a request represents. Providers that do real generation can
+ * ignore it; the mock provider uses it to produce a recognisable placeholder.
+ */
+export type ImageOperation =
+    | 'model'
+    | 'tryOn'
+    | 'pose'
+    | 'color'
+    | 'fabric'
+    | 'background'
+    | 'lighting'
+    | 'lookbook'
+    | 'magicWand';
+
+/** A base64-encoded image, without the `data:` URL prefix. */
+export interface ImageInput {
+    mimeType: string;
+    data: string;
+}
+
+export interface ImageGenerationRequest {
+    operation: ImageOperation;
+    images: ImageInput[];
+    prompt: string;
+    signal?: AbortSignal;
+}
+
+/**
+ * Anything that can turn a set of input images plus a prompt into a new image.
+ * Implementations resolve with a `data:` URL and reject with an `Error` whose
+ * message is suitable for `getFriendlyErrorMessage`. When `signal` is aborted
+ * they must stop work and reject with the signal's `AbortError`.
+ */
+export interface ImageGenerationProvider {
+    readonly name: string;
+    generateImage(request: ImageGenerationRequest): Promise<string>;
+}
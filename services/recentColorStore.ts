@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { openDatabase, requestToPromise, STORES, transactionDone } from "./db.ts";
+
+// --- Colors recently applied to garments, most recent first, kept across sessions ---
+
+const RECENT_COLORS_KEY = 'recent';
+export const MAX_RECENT_COLORS = 8;
+
+export const loadRecentColors = async (): Promise<string[]> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.recentColors, 'readonly');
+    const stored = await requestToPromise(transaction.objectStore(STORES.recentColors).get(RECENT_COLORS_KEY));
+    return (stored as string[] | undefined) ?? [];
+};
+
+export const saveRecentColors = async (colors: string[]): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.recentColors, 'readwrite');
+    transaction.objectStore(STORES.recentColors).put(colors.slice(0, MAX_RECENT_COLORS), RECENT_COLORS_KEY);
+    await transactionDone(transaction);
+};
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ImageGenerationRequest } from "./providers/index.ts";
+import { openDatabase, requestToPromise, STORES, transactionDone } from "./db.ts";
+
+// --- Generated images keyed by a hash of their inputs, so repeating an edit doesn't pay for it twice ---
+
+/** Total size of cached results; the least recently used are evicted beyond it. */
+const MAX_CACHE_BYTES = 200 * 1024 * 1024;
+
+// Sizes and last use live apart from the images so eviction doesn't have to read every image.
+interface ResultMeta {
+    size: number;
+    lastUsedAt: number;
+}
+
+const toHex = (buffer: ArrayBuffer): string =>
+    Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * A SHA-256 of everything that determines a request's result. `variant` tells apart several
+ * candidates asked for with the same request; the first one shares its key with a single request.
+ */
+export const getResultCacheKey = async (providerName: string, request: ImageGenerationRequest, variant = 0): Promise<string> => {
+    const { operation, prompt, images } = request;
+    const parts = [providerName, operation, prompt, images.map(image => [image.mimeType, image.data])];
+    const content = JSON.stringify(variant > 0 ? [...parts, variant] : parts);
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+    return toHex(digest);
+};
+
+/** The cached result for `key`, if any. Reading it marks it as recently used. */
+export const getCachedResult = async (key: string): Promise<string | undefined> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([STORES.results, STORES.resultMeta], 'readwrite');
+    const result = await requestToPromise(transaction.objectStore(STORES.results).get(key)) as string | undefined;
+    if (result !== undefined) {
+        const meta: ResultMeta = { size: result.length, lastUsedAt: Date.now() };
+        transaction.objectStore(STORES.resultMeta).put(meta, key);
+    }
+    await transactionDone(transaction);
+    return result;
+};
+
+/** Stores a result, then evicts the least recently used ones until the cache fits its size cap. */
+export const putCachedResult = async (key: string, result: string): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([STORES.results, STORES.resultMeta], 'readwrite');
+    const results = transaction.objectStore(STORES.results);
+    const metaStore = transaction.objectStore(STORES.resultMeta);
+    const meta: ResultMeta = { size: result.length, lastUsedAt: Date.now() };
+    results.put(result, key);
+    metaStore.put(meta, key);
+
+    const [keys, metas] = await Promise.all([
+        requestToPromise(metaStore.getAllKeys()),
+        requestToPromise(metaStore.getAll()) as Promise<ResultMeta[]>,
+    ]);
+    const entries = keys
+        .map((entryKey, index) => ({ key: entryKey, ...metas[index] }))
+        .sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+    let totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+    for (const entry of entries) {
+        if (totalSize <= MAX_CACHE_BYTES) break;
+        if (entry.key === key) continue;
+        results.delete(entry.key);
+        metaStore.delete(entry.key);
+        totalSize -= entry.size;
+    }
+    await transactionDone(transaction);
+};
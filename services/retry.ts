@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { classifyError, isAbortError } from "./errors.ts";
+
+export interface RetryOptions {
+    /** Total attempts including the first one. */
+    maxAttempts: number;
+    initialDelayMs: number;
+    maxDelayMs: number;
+    backoffFactor: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/** `VITE_GENERATION_MAX_ATTEMPTS`, if it is a whole number of at least 1; a bad value would retry forever. */
+const parseMaxAttempts = (value: string | undefined): number => {
+    const attempts = Number.parseInt(value ?? '', 10);
+    return Number.isInteger(attempts) && attempts >= 1 ? attempts : DEFAULT_MAX_ATTEMPTS;
+};
+
+let retryOptions: RetryOptions = {
+    maxAttempts: parseMaxAttempts(import.meta.env.VITE_GENERATION_MAX_ATTEMPTS),
+    initialDelayMs: 1000,
+    maxDelayMs: 8000,
+    backoffFactor: 2,
+};
+
+export const getRetryOptions = (): RetryOptions => retryOptions;
+
+export const configureRetry = (options: Partial<RetryOptions>) => {
+    retryOptions = { ...retryOptions, ...options };
+};
+
+/** Resolves after `ms`, or rejects with the signal's reason as soon as it is aborted. */
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/** Exponential backoff with "full jitter", so parallel callers don't retry in lockstep. */
+const backoffDelay = (attempt: number, options: RetryOptions): number => {
+    const ceiling = Math.min(options.maxDelayMs, options.initialDelayMs * options.backoffFactor ** (attempt - 1));
+    return Math.round(Math.random() * ceiling);
+};
+
+/**
+ * Runs `operation`, retrying transient failures (see `GenerationError.isTransient`)
+ * with exponential backoff. Every other failure is rethrown as a classified
+ * `GenerationError`; aborts are rethrown untouched.
+ */
+export const withRetry = async <T>(
+    operation: () => Promise<T>,
+    signal?: AbortSignal,
+    options: RetryOptions = retryOptions,
+): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await operation();
+        } catch (err) {
+            if (signal?.aborted || isAbortError(err)) throw err;
+            const error = classifyError(err);
+            if (!error.isTransient || attempt >= options.maxAttempts) throw error;
+            const delayMs = backoffDelay(attempt, options);
+            console.warn(`Generation attempt ${attempt} failed (${error.kind}); retrying in ${delayMs}ms.`, error);
+            await sleep(delayMs, signal);
+        }
+    }
+};
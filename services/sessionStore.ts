@@ -0,0 +1,229 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AppStateSnapshot, getSceneKey, OutfitLayer, POSE_INSTRUCTIONS } from "../types.ts";
+import { blobToDataUrl, mapStrings } from "../lib/utils.ts";
+import { HistoryTree, historyTreeFromStacks } from "../lib/historyTree.ts";
+import { openDatabase, requestToPromise, STORES, transactionDone } from "./db.ts";
+import { createImageHold, releaseImages, storeImage } from "./imageStore.ts";
+
+/**
+ * Everything needed to put the dressing room back exactly as it was. The
+ * wardrobe is not part of it: it lives in its own store (see wardrobeStore.ts).
+ */
+export interface SessionState {
+    modelImageUrl: string;
+    outfitHistory: OutfitLayer[];
+    currentOutfitIndex: number;
+    currentPoseId: string;
+    activeBackground: string;
+    activeLighting: string;
+    history: HistoryTree;
+}
+
+export interface SessionSummary {
+    savedAt: number;
+    previewUrl: string;
+}
+
+interface StoredSession {
+    version: 1 | 2 | 3;
+    savedAt: number;
+    /** `SessionState` with every image URL replaced by an `image:<id>` reference. */
+    state: unknown;
+}
+
+const SESSION_VERSION = 3;
+const SESSION_KEY = 'current';
+const IMAGE_REF_PREFIX = 'image:';
+
+// Image URLs already written to the sessionImages store, so autosaves only upload new images.
+const storedImageIds = new Map<string, string>();
+
+// Saves run one at a time so a slow save can't garbage-collect images a newer one references.
+let saveQueue: Promise<void> = Promise.resolve();
+
+const isImageUrl = (value: string) => value.startsWith('data:image/') || value.startsWith('blob:');
+
+const collectImageUrls = (value: unknown, urls: Set<string>): Set<string> => {
+    mapStrings(value, str => {
+        if (isImageUrl(str)) urls.add(str);
+        return str;
+    });
+    return urls;
+};
+
+const writeSession = async (state: SessionState) => {
+    const urls = collectImageUrls(state, new Set());
+
+    // Convert before opening the transaction: IndexedDB transactions close if we await anything else.
+    const newImages: [string, Blob][] = [];
+    for (const url of urls) {
+        if (storedImageIds.has(url)) continue;
+        const blob = await (await fetch(url)).blob();
+        const id = crypto.randomUUID();
+        newImages.push([id, blob]);
+        storedImageIds.set(url, id);
+    }
+
+    const referencedIds = new Set([...urls].map(url => storedImageIds.get(url)!));
+    const stored: StoredSession = {
+        version: SESSION_VERSION,
+        savedAt: Date.now(),
+        state: mapStrings(state, str => isImageUrl(str) ? `${IMAGE_REF_PREFIX}${storedImageIds.get(str)}` : str),
+    };
+
+    const db = await openDatabase();
+    const transaction = db.transaction([STORES.session, STORES.sessionImages], 'readwrite');
+    const images = transaction.objectStore(STORES.sessionImages);
+    for (const [id, blob] of newImages) {
+        images.put(blob, id);
+    }
+    transaction.objectStore(STORES.session).put(stored, SESSION_KEY);
+    const existingIds = await requestToPromise(images.getAllKeys());
+    for (const id of existingIds) {
+        if (!referencedIds.has(String(id))) images.delete(id);
+    }
+    await transactionDone(transaction);
+
+    for (const [url, id] of storedImageIds) {
+        if (!referencedIds.has(id)) storedImageIds.delete(url);
+    }
+};
+
+/** Persists the session, storing each distinct image once as a Blob. */
+export const saveSession = (state: SessionState): Promise<void> => {
+    // Held until written, so the images keep their URLs rather than being spilled before they are read.
+    const hold = createImageHold();
+    hold.add(state);
+    const save = saveQueue.then(() => writeSession(state)).finally(hold.release);
+    saveQueue = save.catch(() => undefined);
+    return save;
+};
+
+const readStoredSession = async (): Promise<StoredSession | null> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.session, 'readonly');
+    const stored = await requestToPromise(transaction.objectStore(STORES.session).get(SESSION_KEY));
+    return (stored as StoredSession | undefined) ?? null;
+};
+
+const readImage = async (id: string): Promise<Blob | undefined> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.sessionImages, 'readonly');
+    return requestToPromise(transaction.objectStore(STORES.sessionImages).get(id));
+};
+
+/** A cheap look at the saved session for the start screen, without decoding every image. */
+export const loadSessionSummary = async (): Promise<SessionSummary | null> => {
+    const stored = await readStoredSession();
+    if (!stored) return null;
+    const modelRef = (stored.state as { modelImageUrl?: string }).modelImageUrl ?? '';
+    const blob = modelRef.startsWith(IMAGE_REF_PREFIX) ? await readImage(modelRef.slice(IMAGE_REF_PREFIX.length)) : undefined;
+    if (!blob) return null;
+    return { savedAt: stored.savedAt, previewUrl: await blobToDataUrl(blob) };
+};
+
+/** Versions 1 and 2 kept linear undo and redo stacks in place of the history tree. */
+type StackedSessionState = Omit<SessionState, 'history'> & {
+    undoStack: AppStateSnapshot[];
+    redoStack: AppStateSnapshot[];
+};
+
+type PoseIndexed<T> = Omit<T, 'currentPoseId'> & { currentPoseIndex?: number; currentPoseId?: string };
+
+/** Version 1 layers kept one background image and one lighting image per pose, for whichever was applied last. */
+type SplitSceneLayer = OutfitLayer & {
+    backgroundModifiedImages?: Record<string, string>;
+    lightingModifiedImages?: Record<string, string>;
+};
+
+/**
+ * Files the version 1 images under the scene the snapshot shows, which is what version 1 showed
+ * them for. A background and a lighting were never active together; images for an inactive one
+ * could not be shown and are dropped.
+ */
+const migrateLayer = (
+    { backgroundModifiedImages, lightingModifiedImages, ...layer }: SplitSceneLayer,
+    { activeBackground, activeLighting }: Pick<AppStateSnapshot, 'activeBackground' | 'activeLighting'>,
+): OutfitLayer => {
+    const active = activeBackground !== 'Default' ? backgroundModifiedImages : activeLighting !== 'Default' ? lightingModifiedImages : undefined;
+    if (!active || Object.keys(active).length === 0) return layer;
+    const sceneKey = getSceneKey({
+        background: activeBackground,
+        lighting: activeBackground !== 'Default' ? 'Default' : activeLighting,
+    });
+    const sceneImages = { ...layer.sceneImages };
+    for (const [poseId, url] of Object.entries(active)) {
+        sceneImages[poseId] = { ...sceneImages[poseId], [sceneKey]: url };
+    }
+    return { ...layer, sceneImages };
+};
+
+/** Version 1 tracked the current pose by its index among the built-in poses, and split scene images by kind (see `migrateLayer`). */
+const migrateSnapshot = <T extends StackedSessionState | AppStateSnapshot>({ currentPoseIndex, ...snapshot }: PoseIndexed<T>): T => ({
+    ...snapshot,
+    currentPoseId: snapshot.currentPoseId ?? POSE_INSTRUCTIONS[currentPoseIndex ?? 0] ?? POSE_INSTRUCTIONS[0],
+    outfitHistory: snapshot.outfitHistory.map(layer => migrateLayer(layer, snapshot)),
+} as T);
+
+const migrateSession = (state: SessionState | StackedSessionState, version: StoredSession['version']): SessionState => {
+    if (version === SESSION_VERSION) return state as SessionState;
+    const { undoStack, redoStack, ...session } = migrateSnapshot<StackedSessionState>(state as StackedSessionState);
+    const { modelImageUrl, ...current } = session;
+    return {
+        ...session,
+        history: historyTreeFromStacks(
+            undoStack.map(snapshot => migrateSnapshot<AppStateSnapshot>(snapshot)),
+            current,
+            redoStack.map(snapshot => migrateSnapshot<AppStateSnapshot>(snapshot)),
+        ),
+    };
+};
+
+/** Restores the saved session with every image put back in the image store. */
+export const loadSession = async (): Promise<SessionState | null> => {
+    const stored = await readStoredSession();
+    if (!stored) return null;
+
+    const ids = new Set<string>();
+    mapStrings(stored.state, str => {
+        if (str.startsWith(IMAGE_REF_PREFIX)) ids.add(str.slice(IMAGE_REF_PREFIX.length));
+        return str;
+    });
+
+    const urlsById = new Map<string, string>();
+    try {
+        for (const id of ids) {
+            const blob = await readImage(id);
+            if (!blob) throw new Error('The saved session is missing one of its images.');
+            const url = await storeImage(blob);
+            urlsById.set(id, url);
+            storedImageIds.set(url, id);
+        }
+    } catch (err) {
+        // The images read so far won't make it into the state.
+        releaseImages([...urlsById.values()]);
+        throw err;
+    }
+
+    const state = mapStrings(stored.state, str =>
+        str.startsWith(IMAGE_REF_PREFIX) ? urlsById.get(str.slice(IMAGE_REF_PREFIX.length))! : str
+    ) as SessionState | StackedSessionState;
+    return migrateSession(state, stored.version);
+};
+
+export const clearSession = (): Promise<void> => {
+    const clear = saveQueue.then(async () => {
+        const db = await openDatabase();
+        const transaction = db.transaction([STORES.session, STORES.sessionImages], 'readwrite');
+        transaction.objectStore(STORES.session).clear();
+        transaction.objectStore(STORES.sessionImages).clear();
+        await transactionDone(transaction);
+        storedImageIds.clear();
+    });
+    saveQueue = clear.catch(() => undefined);
+    return clear;
+};
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { WardrobeCategory, WardrobeItem } from "../types.ts";
+import { openDatabase, requestToPromise, STORES, transactionDone } from "./db.ts";
+import { storeImage } from "./imageStore.ts";
+
+// --- The personal wardrobe library, kept across sessions and Start Over ---
+
+interface StoredWardrobeItem {
+    id: string;
+    name: string;
+    category: WardrobeCategory;
+    image: Blob;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export type WardrobeItemChanges = Partial<Pick<WardrobeItem, 'name' | 'category'>>;
+
+const toWardrobeItem = async (stored: StoredWardrobeItem): Promise<WardrobeItem> => ({
+    id: stored.id,
+    name: stored.name,
+    category: stored.category,
+    url: await storeImage(stored.image),
+    createdAt: stored.createdAt,
+});
+
+/** Every saved garment, oldest first, with each image put in the image store. */
+export const loadWardrobe = async (): Promise<WardrobeItem[]> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.wardrobe, 'readonly');
+    const stored = await requestToPromise(transaction.objectStore(STORES.wardrobe).getAll()) as StoredWardrobeItem[];
+    return Promise.all(stored
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .map(toWardrobeItem));
+};
+
+export const addWardrobeItem = async (item: WardrobeItem, image: Blob): Promise<WardrobeItem> => {
+    const now = Date.now();
+    const stored: StoredWardrobeItem = {
+        id: item.id,
+        name: item.name,
+        category: item.category,
+        image,
+        createdAt: item.createdAt ?? now,
+        updatedAt: now,
+    };
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.wardrobe, 'readwrite');
+    transaction.objectStore(STORES.wardrobe).put(stored, stored.id);
+    await transactionDone(transaction);
+    return { ...item, createdAt: stored.createdAt };
+};
+
+export const updateWardrobeItem = async (id: string, changes: WardrobeItemChanges): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.wardrobe, 'readwrite');
+    const store = transaction.objectStore(STORES.wardrobe);
+    const stored = await requestToPromise(store.get(id)) as StoredWardrobeItem | undefined;
+    if (stored) {
+        store.put({ ...stored, ...changes, updatedAt: Date.now() }, id);
+    }
+    await transactionDone(transaction);
+};
+
+export const deleteWardrobeItem = async (id: string): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.wardrobe, 'readwrite');
+    transaction.objectStore(STORES.wardrobe).delete(id);
+    await transactionDone(transaction);
+};
@@ -3,6 +3,8 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
+import type { TranslationKey } from './locales.ts';
+
 // FIX: Centralize pose and background constants to be used for strict typing across components.
 export const POSE_INSTRUCTIONS = [
   "Full frontal view, hands on hips",
@@ -14,6 +16,21 @@ export const POSE_INSTRUCTIONS = [
 ] as const;
 export type PoseInstruction = typeof POSE_INSTRUCTIONS[number];
 
+// A pose to render the outfit in. Built-in poses use their instruction as ID, so layers
+// saved before custom poses existed still resolve.
+export interface Pose {
+  id: string;
+  instruction: string;
+  name?: string; // Custom poses only; built-ins are labelled through the `poses` translations
+  referenceImageUrl?: string; // Custom poses only: a photo of someone holding the pose
+  createdAt?: number;
+}
+// Custom poses are labelled by their name, built-ins through the `poses` translations.
+export const getPoseLabel = (pose: Pose, t: (key: TranslationKey, fallback?: string) => string): string =>
+  pose.name ?? t(`poses.${pose.instruction as PoseInstruction}`, pose.instruction);
+export const BUILT_IN_POSES: readonly Pose[] = POSE_INSTRUCTIONS.map(instruction => ({ id: instruction, instruction }));
+export const DEFAULT_POSE_ID: string = POSE_INSTRUCTIONS[0];
+
 export const BACKGROUND_OPTIONS = [
     "Default",
     "Studio Background",
@@ -34,6 +51,43 @@ export const LIGHTING_OPTIONS = [
 ] as const;
 export type LightingOption = typeof LIGHTING_OPTIONS[number];
 
+// A background and a lighting applied together; 'Default' leaves that aspect of the photo as it is.
+export interface Scene {
+  background: string;
+  lighting: string;
+}
+export const DEFAULT_SCENE: Scene = { background: 'Default', lighting: 'Default' };
+export const isDefaultScene = (scene: Scene) => scene.background === 'Default' && scene.lighting === 'Default';
+export const getSceneKey = (scene: Scene) => `${scene.background}|${scene.lighting}`;
+
+export type ScenePresetKind = keyof Scene;
+
+// A user-written background or lighting. Scenes refer to it by `id` in place of a built-in option.
+export interface ScenePreset {
+  id: string;
+  kind: ScenePresetKind;
+  name: string;
+  prompt: string;
+  referenceImageUrl?: string; // Backgrounds only: a photo of the place to put the person in
+  createdAt?: number;
+}
+
+// How the model photo is made from the user's own photo on the start screen.
+export const MODEL_BACKGROUNDS = ['original', 'studio', 'scene'] as const;
+export type ModelBackground = typeof MODEL_BACKGROUNDS[number];
+export const MODEL_POSES = ['relaxed', 'handsOnHips', 'threeQuarterTurn', 'walking'] as const;
+export type ModelPose = typeof MODEL_POSES[number];
+export const MODEL_FRAMINGS = ['fullBody', 'threeQuarter'] as const;
+export type ModelFraming = typeof MODEL_FRAMINGS[number];
+
+export interface ModelCreationOptions {
+  background: ModelBackground;
+  scenePrompt?: string; // 'scene' only: the setting to put the person in
+  pose: ModelPose;
+  framing: ModelFraming;
+}
+export const DEFAULT_MODEL_CREATION_OPTIONS: ModelCreationOptions = { background: 'original', pose: 'relaxed', framing: 'fullBody' };
+
 export const LOOKBOOK_TEMPLATES = {
     'Minimalist Grid': 'A clean, minimalist grid layout with generous white space.',
     'Magazine Spread': 'A dynamic, overlapping magazine-style spread with bold typography.',
@@ -42,18 +96,58 @@ export const LOOKBOOK_TEMPLATES = {
 } as const;
 export type LookbookTemplate = keyof typeof LOOKBOOK_TEMPLATES;
 
+export const WARDROBE_CATEGORIES = ['top', 'bottom', 'dress', 'outerwear', 'shoes', 'bag', 'headwear', 'accessory'] as const;
+export type WardrobeCategory = typeof WARDROBE_CATEGORIES[number];
+
 export interface WardrobeItem {
   id: string;
   name: string;
   url: string;
-  category: 'top' | 'accessory';
+  category: WardrobeCategory;
+  createdAt?: number; // Set once the item is saved to the personal wardrobe library
 }
 
 export interface OutfitLayer {
   garment: WardrobeItem | null; // null represents the base model layer
-  // FIX: Use a more specific record type where keys are known pose instructions.
-  poseImages: Partial<Record<PoseInstruction, string>>; // Maps pose instruction to image URL
-  // FIX: Use a more specific record type for background images.
-  backgroundModifiedImages?: Partial<Record<PoseInstruction, string>>; // Maps pose instruction to image URL with a custom background
-  lightingModifiedImages?: Partial<Record<PoseInstruction, string>>; // Maps pose instruction to image URL with a custom lighting
+  poseImages: Record<string, string>; // Maps pose ID to image URL
+  sceneImages?: Record<string, Record<string, string>>; // Maps pose ID to scene key (see getSceneKey) to image URL
+  alternates?: string[]; // Candidate images passed over when this layer's image was picked
+}
+
+/** The image later garments are layered onto: the default pose, or whichever pose the layer has. */
+export const getLayerBaseImage = (layer: OutfitLayer): string | undefined =>
+  layer.poseImages[DEFAULT_POSE_ID] ?? (Object.values(layer.poseImages)[0] as string | undefined);
+
+export type AppStateSnapshot = {
+  outfitHistory: OutfitLayer[];
+  currentOutfitIndex: number;
+  currentPoseId: string;
+  activeBackground: string;
+  activeLighting: string;
+};
+
+// What a generation job is working on, so the UI can mark it as pending. Layers are identified
+// by their base image rather than their index, which changes as the stack is edited.
+export interface GenerationJobTarget {
+  layerImage?: string;
+  poseId?: string;
+  sceneKey?: string;
+}
+
+export type MaskTool = 'brush' | 'lasso' | 'eraser';
+
+// A painted region that magic wand and color edits are kept inside. It belongs to the layer whose
+// base image it was painted on, and stops applying once that image is replaced.
+export interface EditMask {
+  layerImage: string;
+  /** A PNG the size of the image: white where edits may happen, black elsewhere. */
+  dataUrl: string;
+}
+
+export const COLOR_FINISHES = ['matte', 'glossy', 'metallic', 'satin', 'heathered'] as const;
+export type ColorFinish = typeof COLOR_FINISHES[number];
+
+export interface GarmentColor {
+  hex: string; // "#rrggbb"
+  finish?: ColorFinish;
 }
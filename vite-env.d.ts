@@ -0,0 +1,16 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_GEMINI_API_KEY?: string;
+  // 'gemini' (default) or 'mock'; see services/providers/index.ts
+  readonly VITE_IMAGE_PROVIDER?: string;
+  readonly VITE_MOCK_LATENCY_MS?: string;
+  // Total attempts per generation, including retries of transient failures
+  readonly VITE_GENERATION_MAX_ATTEMPTS?: string;
+  // Longest side, in pixels, of images sent to the model; see services/imageNormalizer.ts
+  readonly VITE_MAX_IMAGE_DIMENSION?: string;
+}
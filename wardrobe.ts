@@ -6,4 +6,5 @@
 import { WardrobeItem } from './types.ts';
 
 // Default wardrobe is empty, users will upload their own items.
+// Uploaded items are kept in the personal wardrobe library (services/wardrobeStore.ts).
 export const defaultWardrobe: WardrobeItem[] = [];
\ No newline at end of file